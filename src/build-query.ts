@@ -5,18 +5,48 @@ import {
   AqAggregate,
   sortMap,
   AqFilter,
+  AqFilterGroup,
+  AqSearch,
   AqSort,
+  AqGeoPoint,
+  AqOperand,
+  expressionOperators,
 } from './property.js';
 import {
   AqQuery,
   AqRemove,
   AqStrict,
   AqSubquery,
+  AqPatch,
+  AqLet,
+  AqInto,
+  AqJoin,
+  AqStrictWindow,
+  AqTraversal,
   AqlExpansionOptions,
+  traversalDirectionMap,
+  modificationClauses,
   expandAqShorthand,
 } from './query.js';
-import { isArangoCollection } from 'arangojs/collection.js';
-import { isAqSubquery, isSupportedFunction } from './type-guards.js';
+import { ArangoCollection, isArangoCollection } from 'arangojs/collection.js';
+import { View, isArangoView } from 'arangojs/view.js';
+import { keysetFilter, keysetSorts } from './pagination.js';
+import {
+  renderAttributeName,
+  renderAttributePath,
+  renderVariable,
+  variableNamePattern,
+} from './paths.js';
+import {
+  AqlFunctionArguments,
+  aggregateFunction,
+  isAqFilterGroup,
+  isAqSubquery,
+  isAqlFunction,
+  isAqlScoringFunction,
+  isSupportedFunction,
+} from './type-guards.js';
+import { JsonPrimitive } from '@salesforce/ts-types';
 
 /**
  * Given an AqQuery object, build an executable GeneratedAqlQuery.
@@ -28,13 +58,21 @@ export function buildQuery(
   spec: AqQuery,
   options: AqlExpansionOptions = {},
   depth = 0,
+): GeneratedAqlQuery {
+  return withCollectionRefs(() => renderQuery(spec, options, depth));
+}
+
+function renderQuery(
+  spec: AqQuery,
+  options: AqlExpansionOptions,
+  depth: number,
 ): GeneratedAqlQuery {
   const strictSpec = expandAqShorthand(spec, options);
   // We use key/value pairs to accumulate properties and assignments that
   // must be unique in the final query.
-  const collected: Record<string, string> = {};
-  const aggregated: Record<string, string> = {};
-  const document: Record<string, string> = {};
+  const collected: Record<string, GeneratedAqlQuery> = {};
+  const aggregated: Record<string, GeneratedAqlQuery> = {};
+  const document: Record<string, GeneratedAqlQuery> = {};
   const d = aqIndent(depth);
 
   // An array of GeneratedAqlQueries we can fill as we build out the query
@@ -44,31 +82,99 @@ export function buildQuery(
     querySegments.push(aql`/** ${literal(strictSpec.comment)} */`);
   }
 
-  // The kickoff for the query; looping over the collection.
-  if (isArangoCollection(strictSpec.collection)) {
+  // The kickoff for the query; looping over the collection, or walking
+  // the graph if a traversal is used as the source.
+  if (strictSpec.traversal) {
+    querySegments.push(aql`${d}${renderTraversal(strictSpec.traversal)}`);
+  } else if (strictSpec.view !== undefined) {
+    const view = isArangoView(strictSpec.view)
+      ? strictSpec.view
+      : ({ isArangoView: true, name: strictSpec.view } as View);
     querySegments.push(
-      aql`${d}FOR ${literal(strictSpec.document)} IN ${strictSpec.collection}`,
+      aql`${d}FOR ${literal(strictSpec.document)} IN ${view}`,
     );
-  } else {
+    if (strictSpec.search?.length) {
+      querySegments.push(
+        aql`${d}SEARCH ${join(
+          strictSpec.search.map(s => renderSearch(s, strictSpec.document)),
+          ' AND ',
+        )}`,
+      );
+    }
+  } else if (strictSpec.collection !== undefined) {
     querySegments.push(
-      aql`${d}FOR ${literal(strictSpec.document)} IN ${literal(
+      aql`${d}FOR ${literal(strictSpec.document)} IN ${renderCollection(
         strictSpec.collection,
       )}`,
     );
   }
 
+  // Joined collections are looped over, or looked up, before anything else
+  // can refer to their documents.
+  for (const j of strictSpec.joins ?? []) {
+    querySegments.push(...renderJoin(j, strictSpec.document, depth));
+  }
+
+  // A subquery's correlations tie its documents to the enclosing query's.
+  if (strictSpec.correlate && options.parentDocument) {
+    const conditions = Object.entries(strictSpec.correlate).map(
+      ([path, other]) => {
+        const target = typeof other === 'string' ? { path: other } : other;
+        return aql`${renderPath({ path }, strictSpec.document)} == ${renderPath(
+          target,
+          options.parentDocument,
+        )}`;
+      },
+    );
+    querySegments.push(aql`${d}FILTER ${joinConditions(conditions)}`);
+  }
+
+  // Subqueries can see every variable defined so far, and any defined by
+  // the queries this one is nested in. A query without a source doesn't have
+  // a document variable of its own.
+  const sourced =
+    strictSpec.traversal !== undefined ||
+    strictSpec.view !== undefined ||
+    strictSpec.collection !== undefined;
+  const scope: AqlExpansionOptions = {
+    parentDocument: sourced ? strictSpec.document : options.parentDocument,
+    collections: options.collections,
+    scope: [
+      ...(options.scope ?? []),
+      ...(sourced ? [strictSpec.document] : []),
+      ...[strictSpec.traversal?.edge, strictSpec.traversal?.path].filter(
+        (v): v is string => v !== undefined,
+      ),
+      ...(strictSpec.joins ?? []).map(j => j.document),
+    ],
+  };
+
   // If we're doing any collect or aggregation queries, turn the properties
   // into collects — otherwise, they'd disappear after the collect statement
   // resets the query's local variables.
 
-  // Eventually, we may want to do some fancy footwork with LET or KEEP
-  // statements to make this less necessary, but for now we'll deal with it.
+  // LET variables go out of scope too, so they're collected along with
+  // the document's properties.
+
+  // Eventually, we may want to do some fancy footwork with KEEP statements
+  // to make this less necessary, but for now we'll deal with it.
+  //
+  // Properties that refer to the INTO variable's groups are returned after
+  // the COLLECT statement instead.
+  const groups = strictSpec.return?.filter(
+    p => p.document === false && rootName(p) === strictSpec.into?.name,
+  );
   if (strictSpec.aggregates?.length) {
+    const lets = Object.keys(strictSpec.lets ?? {});
     const coerced: AqAggregate[] =
       strictSpec.return
-        ?.filter(p => p.document !== false)
+        ?.filter(p => !groups?.includes(p))
+        .filter(p => p.document !== false || lets.includes(rootName(p)))
         .map(p => {
-          return { ...p, function: 'collect' } as AqAggregate;
+          const func = Array.isArray(p.function)
+            ? [...p.function, 'collect']
+            : 'collect';
+          return { ...p, function: func } as AqAggregate;
         }) ?? [];
     strictSpec.aggregates.push(...coerced);
     strictSpec.return = undefined;
@@ -77,36 +183,39 @@ export function buildQuery(
   // If there are still properties left, we add them to the final
   // returned result collection.
   for (const p of strictSpec.return ?? []) {
-    document[renderLabel(p)] = renderPath(p, strictSpec.document);
+    document[renderReturnLabel(p)] = renderPath(p, strictSpec.document);
   }
 
   // Loop through the aggregates, splitting out 'collect' assignments
   // (equivalent to SQL's GROUP BY) from the aggregation functions.
   for (const p of strictSpec.aggregates ?? []) {
-    const { function: func, ...cleanProp } = p;
-    if (func === 'collect') {
-      collected[renderLabel(cleanProp)] = renderPath(
-        cleanProp,
-        strictSpec.document,
-      );
-      document[renderLabel(cleanProp)] = renderLabel(cleanProp);
+    if (aggregateFunction(p) === 'collect') {
+      collected[renderLabel(p)] = renderAggregatePath(p, strictSpec.document);
+      document[renderLabel(p)] = raw(renderLabel(p));
     } else {
       aggregated[renderLabel(p)] = renderAggregatePath(p, strictSpec.document);
-      document[renderLabel(p)] = renderLabel(p);
+      document[renderLabel(p)] = raw(renderLabel(p));
     }
   }
 
+  // Add any filters that should apply before subqueries are run.
+  for (const p of strictSpec.preFilters ?? []) {
+    querySegments.push(
+      ...wrapFilter(p, strictSpec.document).map(q => aql`${d}FILTER ${q}`),
+    );
+  }
+
   // Add any inline subqueries
   for (const q of strictSpec.subqueries ?? []) {
     // a nested subquery with no name is inline
     if ('query' in q) {
       if (!q.name) {
         q.query.inline = true;
-        querySegments.push(renderSubQuery(q, depth + 1));
+        querySegments.push(renderSubQuery(q, depth + 1, scope));
       }
     } else {
       q.inline = true;
-      querySegments.push(renderSubQuery(q, depth + 1));
+      querySegments.push(renderSubQuery(q, depth + 1, scope));
     }
   }
 
@@ -120,22 +229,30 @@ export function buildQuery(
 
       const label = renderLabel({ name: q.name ?? q.query.document ?? 'ERR' });
       querySegments.push(aql`${d}LET ${literal(label)} = ${literal(func)}(`);
-      querySegments.push(renderSubQuery(q, depth + 1));
+      querySegments.push(renderSubQuery(q, depth + 1, scope));
       querySegments.push(aql`${d})`);
     } else if (!q.inline) {
       const label = renderLabel({ name: q.document ?? 'ERR' });
       querySegments.push(aql`${d}LET ${literal(label)} = (`);
-      querySegments.push(renderSubQuery(q, depth + 1));
+      querySegments.push(renderSubQuery(q, depth + 1, scope));
       querySegments.push(aql`${d})`);
     }
   }
 
+  // Add computed variables, which later filters, aggregates and return
+  // values can refer to by name.
+  for (const [name, value] of Object.entries(strictSpec.lets ?? {})) {
+    const variable = literal(renderVariable(name));
+    querySegments.push(
+      aql`${d}LET ${variable} = ${renderLet(value, strictSpec.document)}`,
+    );
+  }
+
   // Add any filters that should apply *before* the collect statement.
   for (const p of strictSpec.filters ?? []) {
-    if (p.document !== false)
-      querySegments.push(
-        ...wrapFilter(p, strictSpec.document).map(q => aql`${d}FILTER ${q}`),
-      );
+    querySegments.push(
+      ...wrapFilter(p, strictSpec.document).map(q => aql`${d}FILTER ${q}`),
+    );
   }
 
   // If there are any COLLECT assignments, or any AGGREGATE statements,
@@ -146,28 +263,34 @@ export function buildQuery(
     Object.entries(collected).length > 0
   ) {
     querySegments.push(aql`${d}COLLECT`);
-    querySegments.push(
-      join(
-        Object.entries(collected).map(
-          ([label, path]) =>
-            aql`${aqIndent(depth + 1)}${literal(label)} = ${literal(path)}`,
+    if (Object.keys(collected).length) {
+      querySegments.push(
+        join(
+          Object.entries(collected).map(
+            ([label, path]) =>
+              aql`${aqIndent(depth + 1)}${literal(label)} = ${path}`,
+          ),
+          ',\n',
         ),
-        ',\n',
-      ),
-    );
+      );
+    }
 
     // If aggregation functions are being used, start an AGGREGATE section
-    // and convert any COUNT into an aggregate.
-    if (Object.entries(aggregated).length > 0) {
+    // and convert any COUNT into an aggregate. WITH COUNT can't be combined
+    // with INTO, so the count is always an aggregate when groups are kept.
+    if (
+      Object.entries(aggregated).length > 0 ||
+      (strictSpec.into && strictSpec.count)
+    ) {
       querySegments.push(aql`${d}AGGREGATE`);
       const qs = Object.entries(aggregated).map(
-        ([label, path]) => aql`  ${literal(label)} = ${literal(path)}`,
+        ([label, path]) => aql`${aqIndent(depth + 1)}${literal(label)} = ${path}`,
       );
       if (strictSpec.count !== false) {
         qs.push(
           aql`${aqIndent(depth + 1)}${literal(strictSpec.count)} = COUNT(1)`,
         );
-        document[strictSpec.count] = strictSpec.count;
+        document[strictSpec.count] = raw(strictSpec.count);
       }
 
       querySegments.push(join(qs, ',\n'));
@@ -177,85 +300,207 @@ export function buildQuery(
         querySegments.push(
           aql`${d}WITH COUNT INTO ${literal(strictSpec.count)}`,
         );
-        document[strictSpec.count] = strictSpec.count;
+        document[strictSpec.count] = raw(strictSpec.count);
       }
     }
   }
 
-  // Add any filters that should apply after the collection is done
-  for (const p of strictSpec.filters ?? []) {
-    if (p.document === false)
-      querySegments.push(
-        ...wrapFilter(p, strictSpec.document).map(q => aql`${d}FILTER ${q}`),
-      );
+  if (strictSpec.into) {
+    querySegments.push(renderInto(strictSpec.into, strictSpec.document, depth));
+    if (groups?.length) {
+      for (const p of groups) {
+        document[renderReturnLabel(p)] = renderPath(p);
+      }
+    } else {
+      document[strictSpec.into.name] = raw(strictSpec.into.name);
+    }
   }
 
-  if (strictSpec.sorts === null) {
-    querySegments.push(aql`${d}SORT null`);
+  // Add any filters that should apply after the collection is done. Once
+  // results are collected, the document variable is out of scope, and
+  // properties refer to the collected values instead.
+  const collecting =
+    Object.entries(aggregated).length > 0 ||
+    Object.entries(collected).length > 0;
+  for (const p of strictSpec.postFilters ?? []) {
+    querySegments.push(
+      ...wrapFilter(p, collecting ? false : strictSpec.document).map(
+        q => aql`${d}FILTER ${q}`,
+      ),
+    );
+  }
+
+  // Add any WINDOW operations; each one is preceded by a sort that puts the
+  // rows in order, and the query's own sorts are applied afterwards. If the
+  // query returns whole documents, the window values are merged into them.
+  const windowed: Record<string, GeneratedAqlQuery> = {};
+  const projected = Object.keys(document).length > 0;
+  for (const w of strictSpec.windows ?? []) {
+    querySegments.push(
+      ...renderWindow(w, collecting ? false : strictSpec.document, depth),
+    );
+    for (const p of w.aggregates) {
+      windowed[renderLabel(p)] = raw(renderLabel(p));
+    }
+  }
+  if (Object.keys(windowed).length && !projected) {
+    const labels = Object.keys(windowed).join(', ');
+    document[strictSpec.document] = raw(
+      `MERGE(${strictSpec.document}, { ${labels} })`,
+    );
   } else {
-    for (const p of strictSpec.sorts ?? []) {
+    Object.assign(document, windowed);
+  }
+
+  // In keyset pagination mode, tie-breakers are added to the sorts, and a
+  // cursor from the previous page skips the rows it already returned.
+  const sorts = strictSpec.cursor ? keysetSorts(strictSpec) : strictSpec.sorts;
+  if (sorts && typeof strictSpec.cursor === 'string') {
+    querySegments.push(
+      aql`${d}FILTER ${renderFilterGroup(keysetFilter(sorts, strictSpec.cursor))}`,
+    );
+  }
+
+  // The next cursor is read from the last row of a page, so queries that
+  // return specific properties return the sort values along with them, in
+  // an object even if there's only one.
+  if (sorts && strictSpec.cursor && projected) {
+    for (const s of sorts) {
+      const label = renderLabel(s);
+      if (document[label] === undefined) {
+        document[label] = renderPath({
+          document: collecting ? false : strictSpec.document,
+          ...s,
+        });
+      }
+    }
+  }
+
+  if (sorts === null) {
+    querySegments.push(aql`${d}SORT null`);
+  } else if (sorts?.length) {
+    const clauses = sorts.map(p => {
       const path = renderPath({
         document: strictSpec.aggregates?.length ? false : strictSpec.document,
         ...p,
       });
-      querySegments.push(
-        aql`${d}SORT ${literal(path)} ${literal(sortMap[p.direction])}`,
-      );
-    }
+      return aql`${path} ${keyword(sortMap, p.direction, 'sort direction')}`;
+    });
+    querySegments.push(aql`${d}SORT ${join(clauses, ', ')}`);
   }
 
   // Add a LIMIT statement if a max number of records was strictSpecified.
   if (strictSpec.limit && strictSpec.limit > 0) {
-    querySegments.push(aql`${d}LIMIT ${strictSpec.limit}`);
-  }  
+    if (strictSpec.offset && strictSpec.offset > 0) {
+      querySegments.push(
+        aql`${d}LIMIT ${strictSpec.offset}, ${strictSpec.limit}`,
+      );
+    } else {
+      querySegments.push(aql`${d}LIMIT ${strictSpec.limit}`);
+    }
+  }
 
   // Unless we're in an inline subquery, build out the RETURN clause.
   if (!strictSpec.inline) {
-    if (strictSpec.remove) {
-      querySegments.push(...renderRemove(strictSpec, strictSpec.remove));
+    if (modificationClauses.some(m => strictSpec[m] !== undefined)) {
+      querySegments.push(...renderModifications(strictSpec, depth));
     } else {
-      querySegments.push(renderReturn(document, depth, strictSpec.document));
+      querySegments.push(
+        renderReturn(
+          document,
+          depth,
+          strictSpec.document,
+          !!strictSpec.cursor && projected,
+        ),
+      );
     }
   }
 
   return join(querySegments, '\n');
 }
 
+/**
+ * Renders the opening FOR statement of a graph traversal.
+ */
+export function renderTraversal(t: AqTraversal): GeneratedAqlQuery {
+  const min = t.min ?? 1;
+  const max = t.max ?? min;
+  if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || max < min) {
+    throw new TypeError(`Invalid traversal depth: ${min}..${max}`);
+  }
+
+  const variables = [t.vertex ?? 'item'];
+  if (t.edge || t.path) variables.push(t.edge ?? '_edge');
+  if (t.path) variables.push(t.path);
+
+  const start = t.value === 'dynamic' ? reference(t.start) : t.start;
+  const direction = keyword(traversalDirectionMap, t.direction, 'traversal direction');
+
+  let source: GeneratedAqlQuery;
+  if (t.graph !== undefined) {
+    source = aql`GRAPH ${t.graph}`;
+  } else {
+    source = join(
+      t.edges.map(e => aql`${renderCollection(e)}`),
+      ', ',
+    );
+  }
+
+  return aql`FOR ${literal(variables.join(', '))} IN ${min}..${max} ${direction} ${start} ${source}`;
+}
+
 /**
  * Renders one query for use as a subquery inside another.
  */
-export function renderSubQuery(subquery: AqQuery | AqSubquery, depth = 0) {
+export function renderSubQuery(
+  subquery: AqQuery | AqSubquery,
+  depth = 0,
+  parent: AqlExpansionOptions = {},
+) {
   if ('query' in subquery) {
     const opt: AqlExpansionOptions = {
+      ...parent,
       ...(subquery.document ? { document: subquery.document } : {}),
     };
     return buildQuery(subquery.query, opt, depth);
   } else {
-    return buildQuery(subquery, {}, depth);
+    return buildQuery(subquery, parent, depth);
   }
 }
 
 /**
  * Given an AqAggregate definition, generate the right side of an AQL
- * aggregate assignment.
+ * aggregate assignment. Like {@link renderPath}, it returns a
+ * {@link GeneratedAqlQuery}, since its values may be bind parameters.
  */
-export function renderAggregatePath(p: AqAggregate, document?: string | false) {
-  const { function: func, ...cleanProperty } = p;
-  const path = renderPath(cleanProperty, document);
+export function renderAggregatePath(
+  p: AqAggregate,
+  document?: string | false,
+): GeneratedAqlQuery {
+  const { function: chain, ...cleanProperty } = p;
+  const func = aggregateFunction(p);
+  const steps = Array.isArray(chain) ? chain.slice(0, -1) : [];
+  const path = renderPath(
+    steps.length
+      ? ({ ...cleanProperty, function: steps } as AqProperty)
+      : cleanProperty,
+    document,
+  );
 
   if (isSupportedFunction(func, true)) {
+    const name = literal(func.toLocaleUpperCase());
     if (['min', 'max', 'sum', 'avg'].includes(func)) {
       if (p.type === 'string') {
-        return `${func.toLocaleUpperCase()}(CHAR_LENGTH(${path}))`;
+        return aql`${name}(CHAR_LENGTH(${path}))`;
       } else if (p.type !== 'number') {
-        return `${func.toLocaleUpperCase()}(LENGTH(${path}))`;
+        return aql`${name}(LENGTH(${path}))`;
       } else {
-        return `${func.toLocaleUpperCase()}(${path})`;
+        return aql`${name}(${path})`;
       }
     } else if (func === 'collect') {
       return path;
     } else {
-      return `${func.toLocaleUpperCase()}(${path})`;
+      return aql`${name}(${path})`;
     }
   }
 
@@ -263,43 +508,298 @@ export function renderAggregatePath(p: AqAggregate, document?: string | false) {
   return path;
 }
 
-function renderFunction(path: string, p: AqProperty) {
-  if (isSupportedFunction(p, false)) {
-    return `${p.function?.toLocaleUpperCase()}(${path})`;
+/**
+ * Renders a join to another collection: a nested FOR loop and its join
+ * condition, or for left joins, a LET holding the first matching document.
+ */
+export function renderJoin(
+  j: AqJoin,
+  document: string,
+  depth = 0,
+): GeneratedAqlQuery[] {
+  const d = aqIndent(depth);
+  const left = j.mode === 'left';
+  const variable = left ? `${j.document}_match` : j.document;
+  const condition = joinConditions(
+    Object.entries(j.on).map(([path, other]) => {
+      const target = typeof other === 'string' ? { path: other } : other;
+      return aql`${renderPath({ path }, variable)} == ${renderPath(
+        target,
+        document,
+      )}`;
+    }),
+  );
+
+  if (!left) {
+    return [
+      aql`${d}FOR ${literal(variable)} IN ${renderCollection(j.collection)}`,
+      aql`${d}FILTER ${condition}`,
+    ];
+  }
+  const i = aqIndent(depth + 1);
+  return [
+    aql`${d}LET ${literal(j.document)} = FIRST(`,
+    aql`${i}FOR ${literal(variable)} IN ${renderCollection(j.collection)}`,
+    aql`${i}FILTER ${condition}`,
+    aql`${i}RETURN ${literal(variable)}`,
+    aql`${d})`,
+  ];
+}
+
+/**
+ * Renders the INTO clause of a COLLECT statement.
+ */
+export function renderInto(
+  into: AqInto<AqProperty>,
+  document?: string | false,
+  depth = 0,
+): GeneratedAqlQuery {
+  const d = aqIndent(depth);
+  const name = literal(renderVariable(into.name));
+
+  if (into.keep?.length) {
+    const keep = into.keep.map(renderVariable).join(', ');
+    return aql`${d}INTO ${name} KEEP ${literal(keep)}`;
+  }
+  if (into.properties?.length === 1) {
+    const path = renderPath(into.properties[0], document);
+    return aql`${d}INTO ${name} = ${path}`;
+  }
+  if (into.properties?.length) {
+    const projection = join(
+      into.properties.map(
+        p => aql`${literal(renderLabel(p))}: ${renderPath(p, document)}`,
+      ),
+      ', ',
+    );
+    return aql`${d}INTO ${name} = { ${projection} }`;
+  }
+  return aql`${d}INTO ${name}`;
+}
+
+/**
+ * Renders a WINDOW operation, along with the SORT statement that orders its rows.
+ */
+export function renderWindow(
+  w: AqStrictWindow,
+  document?: string | false,
+  depth = 0,
+): GeneratedAqlQuery[] {
+  const d = aqIndent(depth);
+  const segments: GeneratedAqlQuery[] = [];
+
+  if (w.sort) {
+    const path = renderPath({ document, ...w.sort });
+    segments.push(
+      aql`${d}SORT ${path} ${keyword(sortMap, w.sort.direction, 'sort direction')}`,
+    );
+  }
+
+  const bounds = join(
+    (['preceding', 'following'] as const)
+      .filter(key => w[key] !== undefined)
+      .map(key => aql`${literal(key)}: ${w[key]}`),
+    ', ',
+  );
+  if (w.range) {
+    const range = renderPath(w.range, document);
+    segments.push(aql`${d}WINDOW ${range} WITH { ${bounds} }`);
+  } else {
+    segments.push(aql`${d}WINDOW { ${bounds} }`);
+  }
+
+  segments.push(aql`${d}AGGREGATE`);
+  segments.push(
+    join(
+      w.aggregates.map(
+        p =>
+          aql`${aqIndent(depth + 1)}${literal(
+            renderLabel(p),
+          )} = ${renderAggregatePath(p, document)}`,
+      ),
+      ',\n',
+    ),
+  );
+  return segments;
+}
+
+/**
+ * Renders the right side of a LET assignment.
+ */
+export function renderLet(
+  value: AqLet,
+  document?: string | false,
+): GeneratedAqlQuery {
+  if ('value' in value) return aql`${value.value}`;
+  return renderPath(value, document);
+}
+
+/**
+ * Wraps a rendered property in its function, or in each function of a chain;
+ * any additional arguments are passed as bind parameters.
+ */
+function renderFunction(path: GeneratedAqlQuery, p: AqProperty) {
+  if (Array.isArray(p.function)) {
+    return p.function.reduce<GeneratedAqlQuery>((value, call, i) => {
+      const { name, args = [] } =
+        typeof call === 'string' ? { name: call, args: [] } : call;
+      checkFunctionCall(name, args, i === 0 ? p.type : undefined);
+      return renderCall(value, name, args);
+    }, path);
+  }
+  if (isSupportedFunction(p, false) && p.function) {
+    checkFunctionCall(p.function, []);
+    return renderCall(path, p.function, []);
   }
   return path;
 }
 
-function wrapFilter(p: AqFilter, document?: string | false) {
+function renderCall(
+  value: GeneratedAqlQuery,
+  name: string,
+  args: readonly JsonPrimitive[],
+) {
+  const func = literal(name.toLocaleUpperCase());
+  return aql`${func}(${join([value, ...args], ', ')})`;
+}
+
+function checkFunctionCall(
+  name: string,
+  args: readonly unknown[],
+  type?: string,
+) {
+  if (!isAqlFunction(name)) {
+    throw new TypeError(`Unknown function '${name}'`);
+  }
+  if (type && !isSupportedFunction(name, false, type)) {
+    throw new TypeError(`Function '${name}' can't be used with ${type} values`);
+  }
+  const [min, max]: readonly number[] =
+    name in AqlFunctionArguments
+      ? AqlFunctionArguments[name as keyof typeof AqlFunctionArguments]
+      : [0, 0];
+  if (args.length < min || args.length > max) {
+    const count =
+      min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+    throw new TypeError(
+      `Function '${name}' takes ${count} extra argument${max === 1 ? '' : 's'}`,
+    );
+  }
+}
+
+/**
+ * Renders a filter group as a single parenthesized boolean expression.
+ */
+export function renderFilterGroup(
+  g: AqFilterGroup,
+  document?: string | false,
+): GeneratedAqlQuery {
+  return renderGroup(g, f => renderCondition(f, document));
+}
+
+function renderGroup<T>(
+  g: AqFilterGroup<T>,
+  renderMember: (member: T | AqFilterGroup<T>) => GeneratedAqlQuery,
+): GeneratedAqlQuery {
+  if ('not' in g) {
+    return aql`NOT (${renderMember(g.not)})`;
+  }
+
+  const [members, operator] = 'or' in g ? [g.or, ' OR '] : [g.and, ' AND '];
+  if (members.length === 0) {
+    return 'or' in g ? aql`false` : aql`true`;
+  }
+  return aql`(${join(members.map(renderMember), operator)})`;
+}
+
+function renderCondition(
+  p: AqFilter | AqFilterGroup,
+  document?: string | false,
+): GeneratedAqlQuery {
+  if (isAqFilterGroup(p)) return renderFilterGroup(p, document);
+  return joinConditions(wrapFilter(p, document));
+}
+
+function joinConditions(conditions: GeneratedAqlQuery[]): GeneratedAqlQuery {
+  if (conditions.length === 0) return aql`true`;
+  if (conditions.length === 1) return conditions[0];
+  return aql`(${join(conditions, ' AND ')})`;
+}
+
+/**
+ * Renders an {@link AqSearch} condition, or a group of them, for use in
+ * a SEARCH clause.
+ */
+export function renderSearch(
+  s: AqSearch | AqFilterGroup<AqSearch>,
+  document?: string | false,
+): GeneratedAqlQuery {
+  if (isAqFilterGroup<AqSearch>(s)) return renderGroup(s, m => renderSearch(m, document));
+
+  const path = renderPath(s, document);
+  const conditions: GeneratedAqlQuery[] = [];
+
+  if (s.eq !== undefined) conditions.push(aql`${path} == ${s.eq}`);
+  if (s.lt !== undefined) conditions.push(aql`${path} < ${s.lt}`);
+  if (s.gt !== undefined) conditions.push(aql`${path} > ${s.gt}`);
+  if (s.in !== undefined) conditions.push(aql`${path} IN ${s.in}`);
+  if (s.phrase !== undefined) {
+    conditions.push(aql`PHRASE(${path}, ${s.phrase})`);
+  }
+  if (s.tokens !== undefined) {
+    if (s.analyzer === undefined) {
+      throw new TypeError('Token search conditions require an analyzer');
+    }
+    conditions.push(aql`${path} IN TOKENS(${s.tokens}, ${s.analyzer})`);
+  }
+  if (s.startsWith !== undefined) {
+    conditions.push(aql`STARTS_WITH(${path}, ${s.startsWith})`);
+  }
+
+  let condition = joinConditions(conditions);
+  if (s.analyzer !== undefined) {
+    condition = aql`ANALYZER(${condition}, ${s.analyzer})`;
+  }
+  if (s.boost !== undefined) {
+    condition = aql`BOOST(${condition}, ${s.boost})`;
+  }
+  if (s.negate) {
+    condition = aql`NOT (${condition})`;
+  }
+  return condition;
+}
+
+function wrapFilter(p: AqFilter | AqFilterGroup, document?: string | false) {
+  if (isAqFilterGroup(p)) return [renderFilterGroup(p, document)];
   const path = renderPath(p, document);
 
   const conditions: GeneratedAqlQuery[] = [];
   if (p.join !== undefined) {
     conditions.push(
-      aql`${literal(path)} == ${literal(p.join)}`,
+      aql`${path} == ${reference(p.join)}`,
     );
   }
 
   if (p.eq !== undefined) {
     conditions.push(
-      aql`${literal(path)} ${literal(p.negate ? '!=' : '==')} ${
-        p.value !== 'dynamic' ? p.eq : literal(p.eq)
+      aql`${path} ${literal(p.negate ? '!=' : '==')} ${
+        p.value !== 'dynamic' ? p.eq : reference(p.eq)
       }`,
     );
   }
 
   if (p.lt !== undefined) {
     conditions.push(
-      aql`${literal(path)} ${literal(p.negate ? '>=' : '<')} ${
-        p.value !== 'dynamic' ? p.lt : literal(p.lt)
+      aql`${path} ${literal(p.negate ? '>=' : '<')} ${
+        p.value !== 'dynamic' ? p.lt : reference(p.lt)
       }`,
     );
   }
 
   if (p.gt !== undefined) {
     conditions.push(
-      aql`${literal(path)} ${literal(p.negate ? '<=' : '>')} ${
-        p.value !== 'dynamic' ? p.gt : literal(p.gt)
+      aql`${path} ${literal(p.negate ? '<=' : '>')} ${
+        p.value !== 'dynamic' ? p.gt : reference(p.gt)
       }`,
     );
   }
@@ -307,13 +807,13 @@ function wrapFilter(p: AqFilter, document?: string | false) {
   if (p.in !== undefined) {
     if (p.value !== 'dynamic' && typeof p.in === 'string') {
       conditions.push(
-        aql`${literal(path)} ${literal(p.negate ? 'NOT IN' : 'IN')} ${literal(
+        aql`${path} ${literal(p.negate ? 'NOT IN' : 'IN')} ${reference(
           p.in,
         )}`,
       );
     } else {
       conditions.push(
-        aql`${literal(path)} ${literal(p.negate ? 'NOT IN' : 'IN')} ${p.in}`,
+        aql`${path} ${literal(p.negate ? 'NOT IN' : 'IN')} ${p.in}`,
       );
     }
   }
@@ -321,83 +821,375 @@ function wrapFilter(p: AqFilter, document?: string | false) {
   if (p.contains !== undefined) {
     if (p.value === 'dynamic') {
       conditions.push(
-        aql`${literal(p.contains)} ${literal(
+        aql`${reference(p.contains)} ${literal(
           p.negate ? 'NOT IN' : 'IN',
-        )} ${literal(path)}`,
+        )} ${path}`,
       );
     } else {
       if (p.type === 'string' && typeof p.contains === 'string') {
         conditions.push(
-          aql`${literal(path)} ${literal(p.negate ? 'NOT LIKE' : 'LIKE')} ${
+          aql`${path} ${literal(p.negate ? 'NOT LIKE' : 'LIKE')} ${
             p.contains
           }`,
         );
       } else {
         conditions.push(
-          aql`${p.contains} ${literal(p.negate ? 'NOT IN' : 'IN')} ${literal(
-            path,
-          )}`,
+          aql`${p.contains} ${literal(p.negate ? 'NOT IN' : 'IN')} ${path}`,
         );
       }
     }
   }
 
+  if (p.like !== undefined) {
+    const pattern = p.value === 'dynamic' ? p.like : escapeLike(p.like);
+    conditions.push(renderLike(path, pattern, p));
+  }
+
+  if (p.startsWith !== undefined) {
+    if (p.value === 'dynamic') {
+      conditions.push(
+        aql`${literal(p.negate ? 'NOT ' : '')}STARTS_WITH(${matchCase(
+          path,
+          p,
+        )}, ${matchCase(reference(p.startsWith), p)})`,
+      );
+    } else {
+      conditions.push(renderLike(path, `${escapeLike(p.startsWith)}%`, p));
+    }
+  }
+
+  if (p.endsWith !== undefined) {
+    if (p.value === 'dynamic') {
+      conditions.push(
+        aql`RIGHT(${matchCase(path, p)}, LENGTH(${reference(
+          p.endsWith,
+        )})) ${literal(p.negate ? '!=' : '==')} ${matchCase(
+          reference(p.endsWith),
+          p,
+        )}`,
+      );
+    } else {
+      conditions.push(renderLike(path, `%${escapeLike(p.endsWith)}`, p));
+    }
+  }
+
+  if (p.regex !== undefined) {
+    const regex = p.value === 'dynamic' ? reference(p.regex) : p.regex;
+    conditions.push(
+      aql`${literal(p.negate ? 'NOT ' : '')}REGEX_TEST(${path}, ${regex}${literal(p.caseInsensitive ? ', true' : '')})`,
+    );
+  }
+
+  if (p.fuzzy !== undefined) {
+    const text =
+      p.value === 'dynamic'
+        ? matchCase(reference(p.fuzzy.text), p)
+        : p.caseInsensitive
+        ? p.fuzzy.text.toLowerCase()
+        : p.fuzzy.text;
+    conditions.push(
+      aql`LEVENSHTEIN_DISTANCE(${matchCase(path, p)}, ${text}) ${literal(
+        p.negate ? '>' : '<=',
+      )} ${p.fuzzy.distance}`,
+    );
+  }
+
+  if (p.near !== undefined) {
+    const point = { type: 'Point', coordinates: p.near.point };
+    conditions.push(
+      aql`GEO_DISTANCE(${path}, ${point}) ${literal(
+        p.negate ? '>' : '<=',
+      )} ${p.near.radius}`,
+    );
+  }
+
+  if (p.within !== undefined) {
+    conditions.push(
+      aql`${literal(p.negate ? 'NOT ' : '')}GEO_CONTAINS(${p.within}, ${path})`,
+    );
+  }
+
+  if (p.intersects !== undefined) {
+    conditions.push(
+      aql`${literal(p.negate ? 'NOT ' : '')}GEO_INTERSECTS(${
+        p.intersects
+      }, ${path})`,
+    );
+  }
+
   return conditions;
 }
 
+/**
+ * Renders a LIKE comparison; the LIKE() function is used for case-insensitive
+ * matches, since the operator doesn't support them.
+ */
+function renderLike(path: GeneratedAqlQuery, pattern: string, p: AqFilter) {
+  const value = p.value === 'dynamic' ? reference(pattern) : pattern;
+  if (p.caseInsensitive) {
+    return aql`${literal(p.negate ? 'NOT ' : '')}LIKE(${path}, ${value}, true)`;
+  }
+  return aql`${path} ${literal(p.negate ? 'NOT LIKE' : 'LIKE')} ${value}`;
+}
+
+function matchCase(expression: GeneratedAqlQuery, p: AqFilter) {
+  return p.caseInsensitive ? aql`LOWER(${expression})` : expression;
+}
+
+/**
+ * Escapes the LIKE wildcards in a string, so they're matched literally.
+ */
+export function escapeLike(input: string) {
+  return input.replace(/[\\%_]/g, c => `\\${c}`);
+}
+
 function renderRemove(spec: AqStrict, remove: AqRemove[]): GeneratedAqlQuery[] {
   const clauses: GeneratedAqlQuery[] = [];
   for (const rm of remove) {
     if (rm.value) {
-      clauses.push(aql`REMOVE { _key: ${rm.value} } IN ${isArangoCollection(rm.collection) ? rm.collection : literal(rm.collection)}`);
+      clauses.push(aql`REMOVE { _key: ${rm.value} } IN ${renderCollection(rm.collection)}`);
     } else {
-      clauses.push(aql`REMOVE { _key: ${literal(spec.document)}.${literal(rm.property)} } IN ${isArangoCollection(rm.collection) ? rm.collection : literal(rm.collection)}`);
+      clauses.push(aql`REMOVE { _key: ${reference(rm.property ?? '', spec.document)} } IN ${renderCollection(rm.collection)}`);
     }
   }
   return clauses;
 }
 
+function renderModifications(
+  spec: AqStrict,
+  depth = 0,
+): GeneratedAqlQuery[] {
+  const d = aqIndent(depth);
+  const clauses: GeneratedAqlQuery[] = [];
+  let returning: 'new' | 'old' | undefined;
+
+  if (spec.remove) {
+    clauses.push(...renderRemove(spec, spec.remove));
+  }
+
+  if (spec.insert) {
+    const doc = spec.insert.properties || spec.insert.values
+      ? renderPatch(spec.insert, spec.document)
+      : literal(spec.document);
+    clauses.push(aql`${d}INSERT ${doc} INTO ${renderCollection(spec.insert.collection)}`);
+    returning ??= spec.insert.returning;
+  }
+
+  for (const [verb, mod] of [['UPDATE', spec.update], ['REPLACE', spec.replace]] as const) {
+    if (mod === undefined) continue;
+    const key = mod.value ?? reference(mod.property ?? '_key', spec.document);
+    clauses.push(
+      aql`${d}${literal(verb)} { _key: ${key} } WITH ${renderPatch(mod, spec.document)} IN ${renderCollection(mod.collection)}`,
+    );
+    returning ??= mod.returning;
+  }
+
+  if (spec.upsert) {
+    const mod = spec.upsert;
+    clauses.push(aql`${d}UPSERT ${renderPatch(mod.match, spec.document)}`);
+    clauses.push(aql`${d}INSERT ${renderPatch(mod.insert, spec.document)}`);
+    clauses.push(
+      aql`${d}${literal(mod.replace ? 'REPLACE' : 'UPDATE')} ${renderPatch(mod.update ?? mod.insert, spec.document)}`,
+    );
+    clauses.push(aql`${d}IN ${renderCollection(mod.collection)}`);
+    returning ??= mod.returning;
+  }
+
+  if (returning) {
+    clauses.push(aql`${d}RETURN ${literal(returning.toLocaleUpperCase())}`);
+  }
+  return clauses;
+}
+
+/**
+ * Renders an {@link AqPatch} as an AQL object literal; literal values are
+ * passed as bind parameters, and their keys are quoted as attribute names.
+ */
+export function renderPatch(
+  patch: AqPatch<AqProperty>,
+  document?: string | false,
+): GeneratedAqlQuery {
+  const entries: GeneratedAqlQuery[] = [];
+  for (const p of patch.properties ?? []) {
+    entries.push(aql`${literal(renderLabel(p))}: ${renderPath(p, document)}`);
+  }
+  for (const [key, value] of Object.entries(patch.values ?? {})) {
+    entries.push(aql`${literal(renderAttributeName(key))}: ${value}`);
+  }
+  if (entries.length === 0) return aql`{}`;
+  return aql`{ ${join(entries, ', ')} }`;
+}
+
+// The collections named so far in the query being built. arangojs binds
+// values by identity, so each name needs a single object to be bound once.
+let collectionRefs: Map<string, ArangoCollection> | undefined;
+
+/**
+ * Runs a function that builds one or more queries, sharing the objects that
+ * collection names are bound through. Queries built separately, and then
+ * combined, bind each collection only once.
+ *
+ * @internal
+ */
+export function withCollectionRefs<T>(build: () => T): T {
+  if (collectionRefs) return build();
+  collectionRefs = new Map();
+  try {
+    return build();
+  } finally {
+    collectionRefs = undefined;
+  }
+}
+
+// Collection names are always passed as bind parameters, so queries that only
+// differ in their collections share a query plan.
+function renderCollection(collection: string | ArangoCollection) {
+  if (isArangoCollection(collection)) return collection;
+  let ref = collectionRefs?.get(collection);
+  if (ref === undefined) {
+    ref = { isArangoCollection: true, name: collection } as ArangoCollection;
+    collectionRefs?.set(collection, ref);
+  }
+  return ref;
+}
+
 function renderReturn(
-  properties: Record<string, string>,
+  properties: Record<string, GeneratedAqlQuery>,
   depth = 0,
   document = '',
+  object = false,
 ): GeneratedAqlQuery {
   const entries = Object.entries(properties);
   if (entries.length === 0)
     return aql`${aqIndent(depth)}RETURN ${literal(document)}`;
-  if (entries.length === 1)
-    return aql`${aqIndent(depth)}RETURN ${literal(entries[0][1])}`;
-  const l = literal(
-    entries
-      .map(entry => {
-        if (entry[0] === entry[1])
-          return `${'  '.repeat(depth + 1)}${entry[0]}`;
-        else return `${'  '.repeat(depth + 1)}${entry[0]}: ${entry[1]}`;
-      })
-      .join(',\n'),
+  if (entries.length === 1 && !object)
+    return aql`${aqIndent(depth)}RETURN ${entries[0][1]}`;
+  const l = join(
+    entries.map(([label, value]) => {
+      if (value.query === label && !Object.keys(value.bindVars).length)
+        return aql`${aqIndent(depth + 1)}${literal(label)}`;
+      else return aql`${aqIndent(depth + 1)}${literal(label)}: ${value}`;
+    }),
+    ',\n',
   );
   return aql`${aqIndent(depth)}RETURN {\n${l}\n${aqIndent(depth)}}`;
 }
 
+/**
+ * Renders a property as an AQL expression: its path, its function chain, and
+ * its expression or distance point. Function arguments and literal values are
+ * passed as bind parameters, so the result is a {@link GeneratedAqlQuery}
+ * that can be nested in an `aql` template.
+ */
 export function renderPath(
   p: AqProperty | AqFilter | AqAggregate | AqSort,
   document?: string | false,
-): string {
+): GeneratedAqlQuery {
   const prefix = p.document === false ? '' : p.document ?? document ?? '';
-  const path = (prefix ? prefix + '.' : '') + (p.path ?? p.name);
-  return renderFunction(path, p);
+  if (isAqlScoringFunction(p.function)) {
+    return raw(`${p.function.toLocaleUpperCase()}(${renderVariable(prefix || '')})`);
+  }
+  if (p.expression) {
+    return renderFunction(renderExpression(p.expression, prefix), p);
+  }
+  const path = renderAttributePath(p.path ?? p.name ?? '', prefix || undefined);
+  if (p.distance) {
+    return renderFunction(renderDistance(path, p.distance), p);
+  }
+  return renderFunction(raw(path), p);
+}
+
+/**
+ * Renders an {@link AqExpression}, or one of its operands. Literal values are
+ * passed as bind parameters, and each operation is parenthesized so nested
+ * expressions keep their order.
+ */
+export function renderExpression(
+  e: AqOperand,
+  document?: string | false,
+): GeneratedAqlQuery {
+  if (typeof e === 'string') return renderPath({ path: e }, document);
+  if ('value' in e) return aql`${e.value}`;
+  if ('if' in e) {
+    return aql`(${renderCondition(e.if, document)} ? ${renderExpression(
+      e.then,
+      document,
+    )} : ${renderExpression(e.else, document)})`;
+  }
+  if ('concat' in e) {
+    return aql`CONCAT(${join(
+      e.concat.map(o => renderExpression(o, document)),
+      ', ',
+    )})`;
+  }
+  for (const [key, operator] of Object.entries(expressionOperators)) {
+    if (key in e) {
+      const operands: AqOperand[] = e[key as keyof typeof e];
+      return aql`(${join(
+        operands.map(o => renderExpression(o, document)),
+        ` ${operator} `,
+      )})`;
+    }
+  }
+  return renderPath(e as AqProperty, document);
+}
+
+/**
+ * Renders the distance in meters between a GeoJSON property and a point. The
+ * point's coordinates are passed as bind parameters, so queries that only
+ * differ in their points share a query plan.
+ */
+function renderDistance(path: string, point: AqGeoPoint) {
+  if (point.length !== 2 || !point.every(n => Number.isFinite(n))) {
+    throw new TypeError('Geo points must be [longitude, latitude] pairs');
+  }
+  const [longitude, latitude] = point;
+  return aql`GEO_DISTANCE(${raw(path)}, [${longitude}, ${latitude}])`;
 }
 
 export function renderLabel(
   p: AqProperty | AqFilter | AqAggregate | AqSort,
 ): string {
-  return sanitizeName(p.name ?? p.path ?? 'ERROR');
+  return renderVariable(sanitizeName(p.name ?? p.path ?? 'ERROR'));
+}
+
+// The attribute name a property is returned under. Labels in backticks are
+// kept as they are, unless they don't need to be quoted.
+function renderReturnLabel(p: AqProperty): string {
+  const quoted = p.name?.match(/^`([^`\p{Cc}]+)`$/u);
+  if (!quoted) return renderLabel(p);
+  return variableNamePattern.test(quoted[1]) ? quoted[1] : quoted[0];
+}
+
+// The variable a property starts with, if it doesn't belong to a document.
+function rootName(p: AqProperty): string {
+  return (p.path ?? p.name ?? '').split(/[.[]/)[0];
 }
 
 export function sanitizeName(input: string, replacement = '_') {
   return input.replace(/[[\].-\s@]/g, replacement);
 }
 
+// Renders a variable, or a path inside one, that a filter or traversal refers
+// to; anything else is rejected rather than written into the query.
+function reference(path: JsonPrimitive, variable?: string): GeneratedAqlQuery {
+  return raw(renderAttributePath(String(path), variable));
+}
+
+// Looks up the AQL keyword for an option; keys the map only inherits, like
+// 'constructor', are rejected along with unknown ones.
+function keyword(map: Record<string, string>, key: string, option: string) {
+  if (!Object.prototype.hasOwnProperty.call(map, key)) {
+    throw new TypeError(`'${key}' is not a valid ${option}`);
+  }
+  return literal(map[key]);
+}
+
+// Wraps a string that's already valid AQL, such as a path or variable name.
+function raw(expression: string): GeneratedAqlQuery {
+  return aql`${literal(expression)}`;
+}
+
 export function aqIndent(amount = 0) {
   return literal('  '.repeat(amount));
 }
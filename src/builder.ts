@@ -4,12 +4,62 @@ import {
   AqAggregate,
   AqSort,
   AqFilter,
+  AqFilterGroup,
+  AqSearch,
   SortDirection,
   AqlAggregateFunction,
+  AqGeoPoint,
 } from './property.js';
-import { AqStrict, AqQuery, expandAqShorthand, AqRemove } from './query.js';
+import {
+  AqStrict,
+  AqQuery,
+  expandAqShorthand,
+  AqRemove,
+  AqInsert,
+  AqUpdate,
+  AqUpsert,
+  AqModification,
+  AqLet,
+  AqInto,
+  AqJoin,
+  AqWindow,
+  expandProperty,
+  expandWindow,
+  modificationClauses,
+} from './query.js';
 import { sanitizeName, buildQuery } from './build-query.js';
-import { JsonPrimitive } from '@salesforce/ts-types';
+import { encodeCursor } from './pagination.js';
+import { AqFacet, AqFacetResult, buildFacetQuery } from './facets.js';
+import { AqTypeMap } from './schema.js';
+import {
+  AqDatabase,
+  AqCursor,
+  AqQueryOptions,
+  runQuery,
+  allResults,
+  firstResult,
+  resultBatches,
+} from './execute.js';
+import { QueryOptions } from 'arangojs/database.js';
+import {
+  AqPath,
+  AqPathValue,
+  AqFilterValue,
+  AqDocumentProperty,
+  AqDocumentFilter,
+  AqNoInfer,
+} from './paths.js';
+import {
+  AqResultShape,
+  AqEmptyResult,
+  AqRow,
+  AqLabel,
+  AqAggregateValue,
+  AqWithField,
+  AqWithCount,
+  AqWithKeyset,
+  AqColumns,
+} from './result.js';
 import { ArangoCollection, isArangoCollection } from 'arangojs/collection.js';
 
 /**
@@ -26,6 +76,14 @@ import { ArangoCollection, isArangoCollection } from 'arangojs/collection.js';
  *   .return('prop2', 'customLabel')
  *   .build();
  * ```
+ * @example Property paths checked against a document type
+ * ```
+ * type Page = { url: { domain: string }; status: number };
+ * const generatedAql = new AqBuilder<Page>('pages')
+ *   .filterBy('status', 404)
+ *   .return('url.domain')
+ *   .build();
+ * ```
  * @example AqQuery structure
  * ```
  * const generatedAql = AqBuilder.build({
@@ -40,7 +98,10 @@ import { ArangoCollection, isArangoCollection } from 'arangojs/collection.js';
  * });
  * ```
  */
-export class AqBuilder {
+export class AqBuilder<
+  TDoc = unknown,
+  TShape extends AqResultShape = AqEmptyResult,
+> {
   /**
    * A JSON structure defining the Query's properties, filters, sorts, etc.
    *
@@ -49,26 +110,60 @@ export class AqBuilder {
    */
   spec: AqStrict;
 
+  /**
+   * The names of the collections and views the query is allowed to use; see
+   * {@link AqBuilder.allowCollections}.
+   */
+  allowedCollections?: string[];
+
+  /**
+   * Convenience wrapper for the {@link buildQuery} function.
+   */
+  static build(input: AqStrict | AqQuery): GeneratedAqlQuery;
   /**
    * Convenience wrapper for the {@link buildQuery} function.
    */
+  static build<TDoc>(input: AqQuery<TDoc>): GeneratedAqlQuery;
   static build(input: AqStrict | AqQuery): GeneratedAqlQuery {
     return buildQuery(expandAqShorthand(input));
   }
 
   /**
    * Builds a {@link GeneratedAqlQuery} based on the instance's {@link AqStrict}.
+   * If the builder has a document type, the query carries the type of its
+   * result rows; see {@link AqRow}.
    */
-  build(): GeneratedAqlQuery {
+  build(): GeneratedAqlQuery<AqRow<TDoc, TShape>> {
     // Instantiate a query, build the AQL, execute it, and return.
-    return buildQuery(this.spec);
+    return buildQuery(this.spec, { collections: this.allowedCollections });
+  }
+
+  /**
+   * Builds a single query that returns the builder's results, along with counts
+   * of the distinct values of each facet among the documents its filters
+   * match; see {@link buildFacetQuery}.
+   *
+   * @example
+   * ```
+   * const q = new AqBuilder('responses')
+   *   .filterBy('status', 200)
+   *   .limit(20)
+   *   .buildFacets(['mime', { path: 'status', disjunctive: true }]);
+   * ```
+   */
+  buildFacets(
+    facets: (AqPath<TDoc> | AqFacet)[],
+  ): GeneratedAqlQuery<AqFacetResult<AqRow<TDoc, TShape>>> {
+    return buildFacetQuery(this.spec, facets, {
+      collections: this.allowedCollections,
+    });
   }
 
   /**
    * Returns a new {@link AqBuilder} containing a buildable {@link AqStrict}.
    */
   constructor(
-    input: string | ArangoCollection | AqStrict | AqQuery,
+    input: string | ArangoCollection | AqStrict | AqQuery<AqNoInfer<TDoc>>,
     document?: string,
   ) {
     if (isArangoCollection(input)) {
@@ -79,7 +174,7 @@ export class AqBuilder {
         { document },
       );
     } else {
-      this.spec = expandAqShorthand(input, { document });
+      this.spec = expandAqShorthand(input as AqQuery, { document });
     }
   }
 
@@ -99,9 +194,26 @@ export class AqBuilder {
    * properties will be transformed into COLLECT assignments when
    * the final query is built.
    */
-  return(name: string | AqProperty, path?: string): this {
-    if (this.spec.remove) {
-      throw new TypeError('Return and remove clauses are mutually exclusive');
+  return<P extends AqPath<TDoc>>(
+    name: P,
+  ): AqBuilder<TDoc, AqWithField<TShape, AqLabel<P>, AqPathValue<TDoc, P>>>;
+  /**
+   * Adds a property to the query results, under a custom label.
+   */
+  return<L extends string, P extends AqPath<TDoc>>(
+    label: L,
+    path: P,
+  ): AqBuilder<TDoc, AqWithField<TShape, AqLabel<L>, AqPathValue<TDoc, P>>>;
+  /**
+   * Adds a property to the query results.
+   */
+  return(
+    definition: AqDocumentProperty<TDoc>,
+  ): AqBuilder<TDoc, AqWithField<TShape, string, unknown>>;
+  return(name: string | AqProperty, path?: string): unknown {
+    const modification = modificationClauses.find(m => this.spec[m] !== undefined);
+    if (modification) {
+      throw new TypeError(`Return and ${modification} clauses are mutually exclusive`);
     }
     this.spec.return ??= [];
     if (typeof name === 'string') {
@@ -125,6 +237,9 @@ export class AqBuilder {
     }
     this.spec.remove ??= [];
     if (typeof input === 'undefined') {
+      if (this.spec.collection === undefined) {
+        throw new TypeError('Queries without a collection require an explicit remove collection');
+      }
       this.spec.remove.push({
         property: '_key',
         collection: this.spec.collection
@@ -139,50 +254,164 @@ export class AqBuilder {
     }
     return this;
   }
-  
+
+  /**
+   * Patch matching documents with new values.
+   *
+   * @example
+   * ```
+   * new AqBuilder('pages')
+   *   .filterBy('status', 404)
+   *   .update({ values: { archived: true }, returning: 'new' })
+   * ```
+   */
+  update(definition: AqUpdate): this {
+    this.assertNoReturn('update');
+    this.spec.update = this.expandModification(definition, 'update').update;
+    return this;
+  }
+
+  /**
+   * Replace matching documents with new documents.
+   */
+  replace(definition: AqUpdate): this {
+    this.assertNoReturn('replace');
+    this.spec.replace = this.expandModification(definition, 'replace').replace;
+    return this;
+  }
+
+  /**
+   * Insert matching documents into another collection. If no properties or
+   * values are specified, each document is copied as-is.
+   */
+  insertInto(
+    collection: string | ArangoCollection,
+    definition: Omit<AqInsert, 'collection'> = {},
+  ): this {
+    this.assertNoReturn('insert');
+    this.spec.insert = this.expandModification(
+      { ...definition, collection },
+      'insert',
+    ).insert;
+    return this;
+  }
+
+  /**
+   * Update a matching document, or insert a new one if none exists.
+   */
+  upsert(definition: AqUpsert): this {
+    this.assertNoReturn('upsert');
+    this.spec.upsert = this.expandModification(definition, 'upsert').upsert;
+    return this;
+  }
+
+  protected assertNoReturn(clause: AqModification) {
+    if (this.spec.return) {
+      throw new TypeError(`Return and ${clause} clauses are mutually exclusive`);
+    }
+  }
+
+  protected expandModification(
+    definition: AqUpdate | AqInsert | AqUpsert,
+    clause: AqModification,
+  ): AqStrict {
+    return expandAqShorthand({
+      collection: this.spec.collection,
+      traversal: this.spec.traversal,
+      view: this.spec.view,
+      document: this.spec.document,
+      [clause]: definition,
+    });
+  }
+
 
   /**
    * Groups query results by the values in a given property.
    */
-  groupBy(definition: AqAggregate): this;
+  groupBy(
+    definition: AqDocumentProperty<TDoc, AqAggregate>,
+  ): AqBuilder<TDoc, AqWithField<TShape, string, unknown, true>>;
   /**
    * Groups query results by the values in a given property.
    */
-  groupBy(name: string, path?: string): this;
+  groupBy<P extends AqPath<TDoc>>(
+    name: P,
+  ): AqBuilder<TDoc, AqWithField<TShape, AqLabel<P>, AqPathValue<TDoc, P>, true>>;
+  /**
+   * Groups query results by the values in a given property, under a custom label.
+   */
+  groupBy<L extends string, P extends AqPath<TDoc>>(
+    label: L,
+    path: P,
+  ): AqBuilder<TDoc, AqWithField<TShape, AqLabel<L>, AqPathValue<TDoc, P>, true>>;
   /**
    * Groups query results by the values in a given property.
    */
-  groupBy(name: string | AqAggregate, path?: string): this {
-    if (typeof name === 'string') return this.aggregate(name, 'collect', path);
-    return this.aggregate(name);
+  groupBy(name: string | AqAggregate, path?: string): unknown {
+    if (typeof name === 'string') {
+      return this.addAggregate({ path, name, function: 'collect' });
+    }
+    return this.addAggregate(name);
   }
 
   /**
    * Groups query results by the values in a given property.
    */
-  collect(definition: AqAggregate): this;
+  collect(
+    definition: AqDocumentProperty<TDoc, AqAggregate>,
+  ): AqBuilder<TDoc, AqWithField<TShape, string, unknown, true>>;
   /**
    * Groups query results by the values in a given property.
    */
-  collect(name: string, path?: string): this;
+  collect<P extends AqPath<TDoc>>(
+    name: P,
+  ): AqBuilder<TDoc, AqWithField<TShape, AqLabel<P>, AqPathValue<TDoc, P>, true>>;
+  /**
+   * Groups query results by the values in a given property, under a custom label.
+   */
+  collect<L extends string, P extends AqPath<TDoc>>(
+    label: L,
+    path: P,
+  ): AqBuilder<TDoc, AqWithField<TShape, AqLabel<L>, AqPathValue<TDoc, P>, true>>;
   /**
    * Groups query results by the values in a given property.
    */
-  collect(name: string | AqAggregate, path?: string): this {
-    if (typeof name === 'string') return this.aggregate(name, 'collect', path);
-    return this.aggregate(name);
+  collect(name: string | AqAggregate, path?: string): unknown {
+    if (typeof name === 'string') {
+      return this.addAggregate({ path, name, function: 'collect' });
+    }
+    return this.addAggregate(name);
   }
 
   /**
    * Adds an aggregate property to the query results that summarizes a particular
    * property's values, in conjunction with a collect/groupBy statement.
    */
-  aggregate(name: string, func?: AqlAggregateFunction, path?: string): this;
+  aggregate<P extends AqPath<TDoc>, F extends AqlAggregateFunction = 'collect'>(
+    name: P,
+    func?: F,
+  ): AqBuilder<
+    TDoc,
+    AqWithField<TShape, AqLabel<P>, AqAggregateValue<F, AqPathValue<TDoc, P>>, true>
+  >;
+  /**
+   * Adds an aggregate property to the query results, under a custom label.
+   */
+  aggregate<L extends string, F extends AqlAggregateFunction, P extends AqPath<TDoc>>(
+    label: L,
+    func: F,
+    path: P,
+  ): AqBuilder<
+    TDoc,
+    AqWithField<TShape, AqLabel<L>, AqAggregateValue<F, AqPathValue<TDoc, P>>, true>
+  >;
   /**
    * Adds an aggregate property to the query results that summarizes a particular
    * property's values, in conjunction with a collect/groupBy statement.
    */
-  aggregate(definition: AqAggregate): this;
+  aggregate(
+    definition: AqDocumentProperty<TDoc, AqAggregate>,
+  ): AqBuilder<TDoc, AqWithField<TShape, string, unknown, true>>;
   /**
    * Adds an aggregate property to the query results that summarizes a particular
    * property's values, in conjunction with a collect/groupBy statement.
@@ -191,85 +420,205 @@ export class AqBuilder {
     name: string | AqAggregate,
     func: AqlAggregateFunction = 'collect',
     path?: string,
-  ): this {
-    this.spec.aggregates ??= [];
+  ): unknown {
     if (typeof name === 'string') {
-      this.spec.aggregates.push({ path, name, function: func });
-    } else {
-      this.spec.aggregates.push(name);
+      return this.addAggregate({ path, name, function: func });
     }
+    return this.addAggregate(name);
+  }
+
+  protected addAggregate(definition: AqAggregate): this {
+    this.spec.aggregates ??= [];
+    this.spec.aggregates.push(definition);
     return this;
   }
 
   /**
-   * Filters query results by a particular property's value.
+   * Joins another collection's documents to the query's documents. Their
+   * properties can then be filtered, sorted, collected and returned using
+   * the join's `document`.
    *
-   * @remarks
-   * The order in which the query is built matters: if 'groupBy' or 'aggregate'
-   * clauses have already been added, the filter will apply to the post-aggregation
-   * values.
+   * @example
+   * ```
+   * new AqBuilder('responses')
+   *   .join({ collection: 'pages', document: 'page', on: { url: 'url' } })
+   *   .return({ name: 'title', path: 'title', document: 'page' })
+   * ```
    */
-  filterBy(name: string, value?: JsonPrimitive | JsonPrimitive[]): this;
+  join(definition: AqJoin): this {
+    this.spec.joins ??= [];
+    this.spec.joins.push(definition);
+    return this;
+  }
+
   /**
-   * Filters query results by a particular property's value.
+   * Assigns a computed value to a variable with a `LET` statement. Filters,
+   * sorts, aggregates and return values can then refer to it by name.
    *
-   * @remarks
-   * The order in which the query is built matters: if 'groupBy' or 'aggregate'
-   * clauses have already been added, the filter will apply to the post-aggregation
-   * values.
+   * @example
+   * ```
+   * new AqBuilder('pages')
+   *   .let('domain', { path: 'url.domain', function: 'lower' })
+   *   .groupBy('domain')
+   * ```
+   */
+  let(name: string, definition: AqPath<TDoc> | AqLet): this {
+    const value =
+      typeof definition === 'string' ? { path: definition } : definition;
+    this.spec.lets = { ...this.spec.lets, [name]: value };
+    return this;
+  }
+
+  /**
+   * Adds a WINDOW operation that aggregates each result together with its
+   * neighbors; useful for running totals and moving averages.
+   *
+   * @example
+   * ```
+   * new AqBuilder('crawls')
+   *   .window({
+   *     sort: 'started',
+   *     preceding: 'unbounded',
+   *     aggregates: [{ name: 'running', path: 'pages', function: 'sum', type: 'number' }],
+   *   })
+   * ```
    */
-  filterBy(definition: AqFilter): this;
+  window(definition: AqWindow<TDoc>): this {
+    this.spec.windows ??= [];
+    this.spec.windows.push(expandWindow(definition as AqWindow));
+    return this;
+  }
+
   /**
-   * Filters query results by a particular property's value.
+   * Filters query results by a particular property's value. These filters are
+   * applied after any subqueries, but before results are collected or aggregated.
    *
    * @remarks
-   * The order in which the query is built matters: if 'groupBy' or 'aggregate'
-   * clauses have already been added, the filter will apply to the post-aggregation
-   * values.
+   * If no value is given, the filter matches documents where the property is
+   * set; if an array is given, documents where the property is one of its values.
+   */
+  filterBy<P extends AqPath<TDoc>>(
+    name: P,
+    value?: AqFilterValue<AqPathValue<TDoc, P>>,
+  ): this;
+  /**
+   * Filters query results by a particular property's value. These filters are
+   * applied after any subqueries, but before results are collected or aggregated.
    */
   filterBy(
-    property: string | AqFilter,
-    value?: JsonPrimitive | JsonPrimitive[],
+    definition: AqDocumentFilter<TDoc> | AqFilterGroup<AqDocumentFilter<TDoc>>,
+  ): this;
+  filterBy(
+    property: string | AqFilter | AqFilterGroup,
+    value?: AqFilterValue<unknown>,
   ): this {
     this.spec.filters ??= [];
-    if (typeof property === 'string') {
-      if (value === undefined) {
-        this.spec.filters.push({
-          document: this.spec.aggregates?.length ? false : this.spec.document,
-          path: property,
-          eq: null,
-          negate: true,
-        });
-      } else if (Array.isArray(value)) {
-        this.spec.filters.push({
-          document: this.spec.aggregates?.length ? false : this.spec.document,
-          path: property,
-          in: value,
-        });
-      } else {
-        this.spec.filters.push({
-          document: this.spec.aggregates?.length ? false : this.spec.document,
-          path: property,
-          eq: value,
-        });
-      }
-    } else {
-      const document = this.spec.aggregates?.length
-        ? false
-        : this.spec.document;
-      this.spec.filters.push({ ...property, document });
-    }
+    this.spec.filters.push(toFilter(property, value));
+    return this;
+  }
+
+  /**
+   * Filters documents before any subqueries are run; useful for skipping
+   * expensive subqueries on documents that won't be returned.
+   */
+  preFilterBy<P extends AqPath<TDoc>>(
+    name: P,
+    value?: AqFilterValue<AqPathValue<TDoc, P>>,
+  ): this;
+  /**
+   * Filters documents before any subqueries are run; useful for skipping
+   * expensive subqueries on documents that won't be returned.
+   */
+  preFilterBy(
+    definition: AqDocumentFilter<TDoc> | AqFilterGroup<AqDocumentFilter<TDoc>>,
+  ): this;
+  preFilterBy(
+    property: string | AqFilter | AqFilterGroup,
+    value?: AqFilterValue<unknown>,
+  ): this {
+    this.spec.preFilters ??= [];
+    this.spec.preFilters.push(toFilter(property, value));
+    return this;
+  }
+
+  /**
+   * Filters query results after they're collected or aggregated, but before
+   * they're sorted and limited. In aggregate queries, property names refer to
+   * the collected and aggregated values.
+   *
+   * @example
+   * ```
+   * new AqBuilder('pages')
+   *   .groupBy('domain', 'url.domain')
+   *   .postFilterBy({ path: 'total', gt: 100 })
+   * ```
+   */
+  postFilterBy<P extends AqPath<TDoc> | ResultLabel<TShape>>(
+    name: P,
+    value?: AqFilterValue<ResultValue<TDoc, TShape, P>>,
+  ): this;
+  /**
+   * Filters query results after they're collected or aggregated, but before
+   * they're sorted and limited. In aggregate queries, property names refer to
+   * the collected and aggregated values.
+   */
+  postFilterBy(definition: AqFilter | AqFilterGroup): this;
+  postFilterBy(
+    property: string | AqFilter | AqFilterGroup,
+    value?: AqFilterValue<unknown>,
+  ): this {
+    this.spec.postFilters ??= [];
+    this.spec.postFilters.push(toFilter(property, value));
+    return this;
+  }
+
+  /**
+   * Adds a condition to the SEARCH clause of a query whose source is an
+   * ArangoSearch view.
+   */
+  search(definition: AqSearch | AqFilterGroup<AqSearch>): this {
+    this.spec.search ??= [];
+    this.spec.search.push(definition);
+    return this;
+  }
+
+  /**
+   * Filters query results to those matching **any** of the given filters.
+   * As with {@link AqBuilder.filterBy}, the filters are applied before results
+   * are collected or aggregated.
+   */
+  filterAny(
+    ...filters: (AqDocumentFilter<TDoc> | AqFilterGroup<AqDocumentFilter<TDoc>>)[]
+  ): this {
+    this.spec.filters ??= [];
+    this.spec.filters.push({ or: filters });
+    return this;
+  }
+
+  /**
+   * Filters query results to those matching **all** of the given filters.
+   * As with {@link AqBuilder.filterBy}, the filters are applied before results
+   * are collected or aggregated.
+   */
+  filterAll(
+    ...filters: (AqDocumentFilter<TDoc> | AqFilterGroup<AqDocumentFilter<TDoc>>)[]
+  ): this {
+    this.spec.filters ??= [];
+    this.spec.filters.push({ and: filters });
     return this;
   }
 
   /**
    * Sorts the query results by a particular property value.
    */
-  sortBy(name: string | null, direction?: SortDirection): this;
+  sortBy(
+    name: AqPath<TDoc> | ResultLabel<TShape> | null,
+    direction?: SortDirection,
+  ): this;
   /**
    * Sorts the query results by a particular property value.
    */
-  sortBy(definition: AqSort): this;
+  sortBy(definition: AqDocumentProperty<TDoc, AqSort>): this;
   /**
    * Sorts the query results by a particular property value.
    */
@@ -292,23 +641,227 @@ export class AqBuilder {
   }
 
   /**
-   * Limits the number of results returned.
+   * Sorts query results by their distance from a point, nearest first. If a
+   * radius is given, results further than that many meters away are filtered
+   * out. The property must hold GeoJSON values; a geo index on it will be used
+   * if one exists.
+   *
+   * @example
+   * ```
+   * new AqBuilder('venues').near('location', [13.4, 52.5], 1000).limit(10)
+   * ```
+   */
+  near(path: AqPath<TDoc>, point: AqGeoPoint, radius?: number): this {
+    if (radius !== undefined) {
+      this.spec.filters ??= [];
+      this.spec.filters.push({ path, near: { point, radius } });
+    }
+    this.spec.sorts ??= [];
+    this.spec.sorts.push({ path, distance: point, direction: 'asc' });
+    return this;
+  }
+
+  /**
+   * Limits the number of results returned, optionally skipping a number of
+   * results first.
    */
-  limit(value: number | undefined): this {
+  limit(value: number | undefined, offset?: number): this {
     if (value && value > 0) {
       this.spec.limit = value;
     } else {
       this.spec.limit = undefined;
     }
+    if (offset && offset > 0) {
+      this.spec.offset = offset;
+    } else {
+      this.spec.offset = undefined;
+    }
+    return this;
+  }
+
+  /**
+   * Enables keyset pagination; if a cursor token from a previous page is given,
+   * only the results that follow it are returned.
+   *
+   * @example
+   * ```
+   * const q = new AqBuilder('pages').sortBy('url').limit(50).cursor(token);
+   * const rows = await (await db.query(q.build())).all();
+   * const next = q.nextCursor(rows[rows.length - 1]);
+   * ```
+   */
+  cursor(token?: string): AqBuilder<TDoc, AqWithKeyset<TShape>>;
+  cursor(token?: string): unknown {
+    this.spec.cursor = token ?? true;
+    return this;
+  }
+
+  /**
+   * Creates the cursor token for the page that follows a given result row.
+   */
+  nextCursor(row: Record<string, unknown>): string {
+    return encodeCursor(this.spec, row);
+  }
+
+  /**
+   * Sets the cursor options used when the query is run.
+   */
+  options(value: AqQueryOptions): this {
+    this.spec.options = { ...this.spec.options, ...value };
     return this;
   }
 
+  /**
+   * Sets the value types of the query's document properties. When the query
+   * is built, each property gets its `type` filled in from the map, and type
+   * mismatches throw a TypeError.
+   *
+   * @example
+   * ```
+   * const q = new AqBuilder('responses')
+   *   .types(inferTypes(samples))
+   *   .groupBy('mime')
+   *   .aggregate('bytes', 'sum');
+   * ```
+   */
+  types(map: AqTypeMap): this {
+    this.spec.types = map;
+    return this;
+  }
+
+  /**
+   * Limits the collections and views the query can use. Building (or running)
+   * a query whose spec reads from or writes to any other collection, in the
+   * query itself or in one of its subqueries, throws a TypeError.
+   *
+   * @example
+   * ```
+   * const q = new AqBuilder(JSON.parse(input) as AqQuery)
+   *   .allowCollections(['pages', 'responses']);
+   * ```
+   */
+  allowCollections(names: string[]): this {
+    this.allowedCollections = names;
+    return this;
+  }
+
+  /**
+   * Runs the query against a database, and returns a cursor for its results.
+   * Options passed here take precedence over the spec's own
+   * {@link AqQuery.options|options}.
+   *
+   * @example
+   * ```
+   * const cursor = await new AqBuilder('pages').options({ batchSize: 100 }).run(db);
+   * ```
+   */
+  async run(
+    db: AqDatabase,
+    options?: QueryOptions,
+  ): Promise<AqCursor<AqRow<TDoc, TShape>>> {
+    return runQuery(db, this.build(), { ...this.spec.options, ...options });
+  }
+
+  /**
+   * Runs the query against a database, and returns all of its results.
+   */
+  async all(
+    db: AqDatabase,
+    options?: QueryOptions,
+  ): Promise<AqRow<TDoc, TShape>[]> {
+    return allResults(db, this.build(), { ...this.spec.options, ...options });
+  }
+
+  /**
+   * Runs the query against a database, and returns its first result.
+   */
+  async first(
+    db: AqDatabase,
+    options?: QueryOptions,
+  ): Promise<AqRow<TDoc, TShape> | undefined> {
+    return firstResult(db, this.build(), { ...this.spec.options, ...options });
+  }
+
+  /**
+   * Runs the query against a database, and yields its results one batch at
+   * a time as they're fetched.
+   *
+   * @example
+   * ```
+   * for await (const batch of new AqBuilder('pages').batches(db)) {
+   *   await process(batch);
+   * }
+   * ```
+   */
+  async *batches(
+    db: AqDatabase,
+    options?: QueryOptions,
+  ): AsyncGenerator<AqRow<TDoc, TShape>[], void, undefined> {
+    yield* resultBatches(db, this.build(), { ...this.spec.options, ...options });
+  }
+
   /**
    * Changes the name of the 'count' property generated when aggregating data. Setting
    * count to 'false' will remove the auto-calculated property from the query results entirely.
    */
-  count(label: string | false): this {
+  count<L extends string | false>(
+    label: L,
+  ): AqBuilder<TDoc, AqWithCount<TShape, L>>;
+  count(label: string | false): unknown {
     this.spec.count = label;
     return this;
   }
+
+  /**
+   * Stores the documents in each group of an aggregate query in an array,
+   * which is returned under the given label. Each group can be limited to a
+   * projection of its documents' properties, or to a list of variables to keep.
+   *
+   * @example
+   * ```
+   * new AqBuilder('responses')
+   *   .groupBy('status')
+   *   .into('urls', { properties: ['url'] })
+   * ```
+   */
+  into<L extends string>(
+    name: L,
+    definition?: Omit<AqInto, 'name'>,
+  ): AqBuilder<TDoc, AqWithField<TShape, L, unknown[]>>;
+  into(name: string, definition: Omit<AqInto, 'name'> = {}): unknown {
+    this.spec.into = {
+      ...definition,
+      name,
+      properties: definition.properties?.map(expandProperty),
+    };
+    return this;
+  }
+}
+
+function toFilter(
+  property: string | AqFilter | AqFilterGroup,
+  value?: AqFilterValue<unknown>,
+): AqFilter | AqFilterGroup {
+  if (typeof property !== 'string') return property;
+  if (value === undefined) return { path: property, eq: null, negate: true };
+  if (Array.isArray(value)) return { path: property, in: value };
+  return { path: property, eq: value };
 }
+
+/**
+ * The type of each result row returned by an {@link AqBuilder}'s query.
+ */
+export type AqBuilderRow<B> = B extends AqBuilder<infer TDoc, infer TShape>
+  ? AqRow<TDoc, TShape>
+  : never;
+
+// Result labels can be used to filter and sort after aggregation.
+type ResultLabel<TShape extends AqResultShape> = keyof AqColumns<TShape> & string;
+
+type ResultValue<
+  TDoc,
+  TShape extends AqResultShape,
+  P extends string,
+> = P extends ResultLabel<TShape>
+  ? AqColumns<TShape>[P]
+  : AqPathValue<TDoc, P>;
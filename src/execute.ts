@@ -0,0 +1,126 @@
+import { AqlQuery } from 'arangojs/aql.js';
+import { QueryOptions } from 'arangojs/database.js';
+import { isArangoError } from 'arangojs/error.js';
+
+/**
+ * Cursor options that can be saved with an {@link AqQuery}, and are passed
+ * through to ArangoDB when the query is run.
+ */
+export type AqQueryOptions = Pick<
+  QueryOptions,
+  'batchSize' | 'ttl' | 'fullCount' | 'maxRuntime'
+>;
+
+/**
+ * The part of an arangojs `Database` needed to run queries. Anything that
+ * implements the same `query` contract, like a test stub, can be used instead.
+ */
+export interface AqDatabase {
+  query<T>(query: AqlQuery<T>, options?: QueryOptions): Promise<AqCursor<T>>;
+}
+
+/**
+ * The part of an arangojs `ArrayCursor` needed to read query results.
+ */
+export interface AqCursor<T> {
+  readonly hasNext: boolean;
+  readonly batches: AsyncIterable<T[]>;
+  all(): Promise<T[]>;
+  next(): Promise<T | undefined>;
+  kill(): Promise<void>;
+}
+
+/**
+ * Thrown when running a query fails; the original error is available as
+ * `cause`, and the failing query as `query`.
+ */
+export class AqQueryError extends Error {
+  /**
+   * The ArangoDB error number, if the database rejected the query.
+   */
+  errorNum?: number;
+
+  constructor(public query: AqlQuery, public cause: unknown) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    super(`Query failed: ${message}`);
+    this.name = 'AqQueryError';
+    if (isArangoError(cause)) this.errorNum = cause.errorNum;
+  }
+}
+
+/**
+ * Runs a query, wrapping any failure in an {@link AqQueryError}.
+ */
+export async function runQuery<T>(
+  db: AqDatabase,
+  query: AqlQuery<T>,
+  options?: QueryOptions,
+): Promise<AqCursor<T>> {
+  try {
+    return await db.query(query, options);
+  } catch (error) {
+    throw new AqQueryError(query, error);
+  }
+}
+
+/**
+ * Runs a query and returns all of its results.
+ */
+export async function allResults<T>(
+  db: AqDatabase,
+  query: AqlQuery<T>,
+  options?: QueryOptions,
+): Promise<T[]> {
+  const cursor = await runQuery(db, query, options);
+  return wrapErrors(query, () => cursor.all());
+}
+
+/**
+ * Runs a query and returns its first result, discarding the rest.
+ */
+export async function firstResult<T>(
+  db: AqDatabase,
+  query: AqlQuery<T>,
+  options?: QueryOptions,
+): Promise<T | undefined> {
+  const cursor = await runQuery(db, query, { batchSize: 1, ...options });
+  return wrapErrors(query, async () => {
+    const row = await cursor.next();
+    if (cursor.hasNext) await cursor.kill();
+    return row;
+  });
+}
+
+/**
+ * Runs a query and yields its results one batch at a time, as they're
+ * fetched from the server.
+ */
+export async function* resultBatches<T>(
+  db: AqDatabase,
+  query: AqlQuery<T>,
+  options?: QueryOptions,
+): AsyncGenerator<T[], void, undefined> {
+  const cursor = await runQuery(db, query, options);
+  const iterator = cursor.batches[Symbol.asyncIterator]();
+  try {
+    while (true) {
+      const result = await wrapErrors(query, () => iterator.next());
+      if (result.done) return;
+      yield result.value;
+    }
+  } finally {
+    // Release the server-side cursor if iteration stopped early.
+    if (cursor.hasNext) await cursor.kill();
+  }
+}
+
+async function wrapErrors<R>(
+  query: AqlQuery,
+  fn: () => Promise<R>,
+): Promise<R> {
+  try {
+    return await fn();
+  } catch (error) {
+    throw new AqQueryError(query, error);
+  }
+}
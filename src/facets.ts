@@ -0,0 +1,159 @@
+import { aql, GeneratedAqlQuery, join, literal } from 'arangojs/aql.js';
+import { JsonPrimitive } from '@salesforce/ts-types';
+import { AqAggregate, AqFilter, AqFilterGroup, AqProperty } from './property.js';
+import { AqQuery, AqStrict, AqlExpansionOptions, expandAqShorthand } from './query.js';
+import { buildQuery, renderLabel, withCollectionRefs } from './build-query.js';
+import { isAqFilterGroup } from './type-guards.js';
+
+/**
+ * A property whose distinct values are counted by {@link buildFacetQuery}.
+ * The facet's label (its `name`, or its `path`) is used as its key in the
+ * results.
+ *
+ * @example Counting the ten most common domains
+ * ```
+ * const f: AqFacet = { name: 'domain', path: 'url.domain', limit: 10 };
+ * ```
+ */
+export type AqFacet = AqProperty & {
+  /**
+   * The maximum number of values to count; the most common ones are kept.
+   */
+  limit?: number;
+
+  /**
+   * If `true`, the base query's filters on the facet's own property are
+   * ignored when its values are counted, so the counts include the values
+   * those filters exclude. This lets a search UI offer the other values of a
+   * facet as alternatives once one of them has been selected.
+   */
+  disjunctive?: boolean;
+};
+
+/**
+ * The number of matching documents for each value of a facet, most common
+ * first.
+ */
+export type AqFacetCounts = { value: JsonPrimitive; count: number }[];
+
+/**
+ * The single row returned by a query built with {@link buildFacetQuery}.
+ */
+export type AqFacetResult<T = unknown> = {
+  results: T[];
+  facets: Record<string, AqFacetCounts>;
+};
+
+/**
+ * Builds a single query that returns the results of a base query, along with
+ * counts of the distinct values of one or more facet properties among the
+ * documents that match its filters. Each facet is counted by its own `LET`
+ * subquery, using `COLLECT ... WITH COUNT INTO`. The subqueries are assigned
+ * to numbered variables, so facet labels can't collide with the variables
+ * the query uses.
+ *
+ * The base query's sorts, limit and return values only apply to its results;
+ * its collection, joins, subqueries, variables and filters apply to the
+ * facets as well.
+ *
+ * @example
+ * ```
+ * const q = buildFacetQuery(
+ *   { collection: 'responses', filters: [{ path: 'status', eq: 200 }], limit: 20 },
+ *   ['mime', { name: 'status', path: 'status', disjunctive: true }],
+ * );
+ * // LET results = ( FOR item IN @@value0 ... LIMIT @value2 RETURN item )
+ * // LET facet_0 = ( FOR item IN @@value3 ... COLLECT value = item.mime WITH COUNT INTO count ... )
+ * // LET facet_1 = ( FOR item IN @@value4 COLLECT value = item.status ... )
+ * // RETURN { results, facets: { mime: facet_0, status: facet_1 } }
+ * ```
+ */
+export function buildFacetQuery<T = unknown>(
+  base: AqQuery,
+  facets: (string | AqFacet)[],
+  options: AqlExpansionOptions = {},
+): GeneratedAqlQuery<AqFacetResult<T>> {
+  return withCollectionRefs(() => renderFacetQuery(base, facets, options));
+}
+
+function renderFacetQuery(
+  base: AqQuery,
+  facets: (string | AqFacet)[],
+  options: AqlExpansionOptions,
+): GeneratedAqlQuery {
+  const strict = expandAqShorthand(base, options);
+  const segments: GeneratedAqlQuery[] = [
+    aql`LET results = (`,
+    buildQuery(strict, options, 1),
+    aql`)`,
+  ];
+
+  const entries: string[] = [];
+  for (const [i, input] of facets.entries()) {
+    const facet: AqFacet = typeof input === 'string' ? { path: input } : input;
+    const label = renderLabel(facet);
+    if (entries.some(e => e.startsWith(`${label}:`))) {
+      throw new TypeError('Facet names must be unique');
+    }
+    entries.push(`${label}: facet_${i}`);
+
+    segments.push(
+      aql`LET ${literal(`facet_${i}`)} = (`,
+      buildQuery(facetSpec(strict, facet), options, 1),
+      aql`)`,
+    );
+  }
+
+  segments.push(
+    aql`RETURN {\n  results,\n  facets: { ${literal(entries.join(', '))} }\n}`,
+  );
+  return join(segments, '\n');
+}
+
+/**
+ * Turns a base query into one that counts the values of a facet.
+ */
+function facetSpec(strict: AqStrict, facet: AqFacet): AqQuery {
+  const { limit, disjunctive, function: chain, ...property } = facet;
+  const steps = chain === undefined ? [] : Array.isArray(chain) ? chain : [chain];
+  const value = {
+    ...property,
+    path: property.path ?? property.name,
+    name: 'value',
+    function: [...steps, 'collect'],
+  } as AqAggregate;
+
+  const keep = (f: AqFilter | AqFilterGroup) => !(disjunctive && isOwnFilter(f, facet));
+  return {
+    collection: strict.collection,
+    view: strict.view,
+    traversal: strict.traversal,
+    document: strict.document,
+    joins: strict.joins,
+    search: strict.search,
+    subqueries: strict.subqueries,
+    lets: strict.lets,
+    preFilters: strict.preFilters?.filter(keep),
+    filters: strict.filters?.filter(keep),
+    aggregates: [value],
+    count: 'count',
+    sorts: [
+      { path: 'count', document: false, direction: 'desc' },
+      { path: 'value', document: false, direction: 'asc' },
+    ],
+    limit,
+  };
+}
+
+// A filter belongs to a facet if it filters on the facet's property, or if
+// it's a group made up only of such filters.
+function isOwnFilter(f: AqFilter | AqFilterGroup, facet: AqFacet): boolean {
+  if (isAqFilterGroup(f)) {
+    const members = 'or' in f ? f.or : 'and' in f ? f.and : [f.not];
+    return members.every(m => isOwnFilter(m, facet));
+  }
+  return (
+    (f.path ?? f.name) === (facet.path ?? facet.name) &&
+    f.document === facet.document
+  );
+}
@@ -1,5 +1,14 @@
 export * from './property.js';
+export * from './paths.js';
+export * from './result.js';
 export * from './query.js';
 export * from './builder.js';
 export * from './build-query.js';
 export * from './type-guards.js';
+export * from './pagination.js';
+export * from './execute.js';
+export * from './parse-query.js';
+export * from './validate.js';
+export * from './facets.js';
+export * from './profile.js';
+export * from './schema.js';
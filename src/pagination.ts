@@ -0,0 +1,124 @@
+import { JsonPrimitive } from '@salesforce/ts-types';
+import { AqFilter, AqFilterGroup, AqSort } from './property.js';
+import { AqQuery, AqStrict, expandAqShorthand } from './query.js';
+import { renderLabel } from './build-query.js';
+import { aggregateFunction } from './type-guards.js';
+
+/**
+ * Returns the full list of sorts used for keyset pagination: the query's own
+ * sorts, followed by tie-breakers that make the sort order unique. Before
+ * aggregation, the document's `_key` is used as the tie-breaker; after it,
+ * the collected properties are.
+ */
+export function keysetSorts(spec: AqStrict): AqSort[] {
+  const aggregated = !!spec.aggregates?.length;
+  const document = aggregated ? false : spec.document;
+  const sorts: AqSort[] = (spec.sorts ?? []).map(s => ({ document, ...s }));
+
+  const tieBreakers: AqSort[] = aggregated
+    ? (spec.aggregates ?? [])
+        .filter(a => aggregateFunction(a) === 'collect')
+        .map(a => ({ path: renderLabel(a), document: false, direction: 'asc' }))
+    : [{ path: '_key', document, direction: 'asc' }];
+
+  for (const t of tieBreakers) {
+    if (!sorts.some(s => s.path === t.path && s.document === t.document)) {
+      sorts.push(t);
+    }
+  }
+  return sorts;
+}
+
+/**
+ * Builds the FILTER condition that skips every row up to, and including, the
+ * row a cursor was created from.
+ */
+export function keysetFilter(
+  sorts: AqSort[],
+  cursor: string,
+): AqFilterGroup {
+  const values = decodeCursor(cursor, sorts);
+  const branches: AqFilterGroup[] = sorts.map((s, i) => {
+    const equal: AqFilter[] = sorts
+      .slice(0, i)
+      .map((prior, j) => ({ ...prior, eq: values[j] }));
+    const beyond: AqFilter =
+      s.direction === 'asc'
+        ? { ...s, gt: values[i] as string | number }
+        : { ...s, lt: values[i] as string | number };
+    return { and: [...equal, beyond] };
+  });
+  return { or: branches };
+}
+
+/**
+ * Creates an opaque cursor token pointing at a row of query results; passing
+ * it back as the query's {@link AqQuery.cursor|cursor} returns the rows that
+ * follow it.
+ *
+ * Sort values are read from the row using each sort's label, or its path if
+ * no property with that label was returned.
+ */
+export function encodeCursor(
+  spec: AqQuery,
+  row: Record<string, unknown>,
+): string {
+  const sorts = keysetSorts(expandAqShorthand(spec));
+  const values = sorts.map(s => {
+    const label = renderLabel(s);
+    const value =
+      label in row ? row[label] : readPath(row, s.path ?? s.name ?? '');
+    if (value === undefined) {
+      throw new TypeError(`Cursor row is missing sort value '${label}'`);
+    }
+    return value as JsonPrimitive;
+  });
+
+  const json = JSON.stringify({ k: sorts.map(sortSignature), v: values });
+  return Buffer.from(json)
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes a cursor token created by {@link encodeCursor}, ensuring it
+ * matches the given sort order.
+ */
+export function decodeCursor(cursor: string, sorts: AqSort[]): JsonPrimitive[] {
+  let decoded: { k?: unknown; v?: unknown };
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    decoded = JSON.parse(Buffer.from(base64, 'base64').toString('utf8'));
+  } catch {
+    throw new TypeError('Invalid pagination cursor');
+  }
+
+  const signature = sorts.map(sortSignature);
+  if (
+    !decoded ||
+    !Array.isArray(decoded.k) ||
+    !Array.isArray(decoded.v) ||
+    decoded.k.join('|') !== signature.join('|') ||
+    decoded.v.length !== sorts.length
+  ) {
+    throw new TypeError('Pagination cursor does not match the query sort order');
+  }
+  return decoded.v as JsonPrimitive[];
+}
+
+function sortSignature(s: AqSort) {
+  const func = Array.isArray(s.function) ? JSON.stringify(s.function) : s.function;
+  const path = s.path ?? s.name ?? JSON.stringify(s.expression);
+  return `${s.document || ''}:${path}:${func ?? ''}:${s.direction}`;
+}
+
+function readPath(input: unknown, path: string): unknown {
+  let value = input;
+  for (const segment of path.split(/[.[\]]+/).filter(Boolean)) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
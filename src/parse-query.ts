@@ -0,0 +1,985 @@
+import { AnyJson, JsonPrimitive } from '@salesforce/ts-types';
+import {
+  AqProperty,
+  AqAggregate,
+  AqFilter,
+  AqFilterGroup,
+  AqSort,
+  AqlFunction,
+  AqlAggregateFunction,
+} from './property.js';
+import { AqInto, AqLet, AqQuery, AqRemove, AqSubquery } from './query.js';
+import { isAqlFunction, isAqlAggregateFunction } from './type-guards.js';
+
+/**
+ * A problem encountered while parsing an AQL query; `line` and `column` are
+ * 1-based positions in the query text.
+ */
+export interface AqParseDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface AqParseResult {
+  /**
+   * The parsed query. If any errors were reported, it only contains the
+   * parts of the query that could be represented.
+   */
+  query?: AqQuery;
+  diagnostics: AqParseDiagnostic[];
+}
+
+/**
+ * Parses an AQL query into an {@link AqQuery} structure.
+ *
+ * Only the subset of AQL that {@link buildQuery} can generate is supported:
+ * FOR loops over collections, FILTER, COLLECT with AGGREGATE or WITH COUNT INTO,
+ * SORT, LIMIT, RETURN, REMOVE, and LET subqueries. Anything else is reported
+ * in the result's diagnostics.
+ *
+ * Bind parameters are replaced with their values; a {@link GeneratedAqlQuery}
+ * can be passed in directly.
+ *
+ * @example
+ * ```
+ * const { query, diagnostics } = parseQuery(
+ *   'FOR item IN responses FILTER item.status == 404 RETURN item.url'
+ * );
+ * // query: {
+ * //   collection: 'responses',
+ * //   document: 'item',
+ * //   filters: [{ path: 'status', eq: 404 }],
+ * //   return: [{ path: 'url' }]
+ * // }
+ * ```
+ */
+export function parseQuery(
+  input: string | { query: string; bindVars?: Record<string, unknown> },
+  bindVars: Record<string, unknown> = {},
+): AqParseResult {
+  const text = typeof input === 'string' ? input : input.query;
+  const vars = typeof input === 'string' ? bindVars : { ...input.bindVars, ...bindVars };
+
+  const diagnostics: AqParseDiagnostic[] = [];
+  let tokens: AqlToken[];
+  let comment: string | undefined;
+  try {
+    ({ tokens, comment } = tokenize(text));
+  } catch (err: unknown) {
+    if (err instanceof AqlSyntaxError) {
+      return { diagnostics: [err.toDiagnostic()] };
+    }
+    throw err;
+  }
+
+  const parser = new AqlParser(tokens, vars, diagnostics);
+  const query = parser.parse();
+  if (query && comment) query.comment = comment;
+  return { query, diagnostics };
+}
+
+type AqlToken = {
+  type: 'name' | 'number' | 'string' | 'bind' | 'punct' | 'eof';
+  value: string;
+  quoted?: true;
+  line: number;
+  column: number;
+};
+
+class AqlSyntaxError extends Error {
+  constructor(message: string, public token: Pick<AqlToken, 'line' | 'column'>) {
+    super(message);
+  }
+
+  toDiagnostic(): AqParseDiagnostic {
+    return {
+      severity: 'error',
+      message: this.message,
+      line: this.token.line,
+      column: this.token.column,
+    };
+  }
+}
+
+const punctuation = [
+  '..', '==', '!=', '<=', '>=', '&&', '||', '=~', '!~',
+  '<', '>', '=', '!', ',', '.', '(', ')', '[', ']', '{', '}', ':', '?',
+  '*', '+', '-', '/', '%',
+];
+
+const statementKeywords = [
+  'FOR', 'FILTER', 'LET', 'COLLECT', 'SORT', 'LIMIT', 'RETURN', 'REMOVE',
+  'INSERT', 'UPDATE', 'REPLACE', 'UPSERT', 'SEARCH', 'WINDOW', 'PRUNE', 'WITH',
+];
+
+const comparisonOperators = [
+  '==', '!=', '<', '<=', '>', '>=', 'IN', 'NOT IN', 'LIKE', 'NOT LIKE',
+];
+
+const stringEscapes: Record<string, string> = {
+  n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', v: '\v', '0': '\0',
+};
+
+function tokenize(text: string) {
+  const tokens: AqlToken[] = [];
+  let comment: string | undefined;
+  let i = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const advance = (to: number) => {
+    for (; i < to; i++) {
+      if (text[i] === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+  };
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const position = { line, column: i - lineStart + 1 };
+
+    const space = rest.match(/^\s+/);
+    if (space) {
+      advance(i + space[0].length);
+      continue;
+    }
+
+    if (rest.startsWith('//')) {
+      const end = rest.indexOf('\n');
+      advance(end === -1 ? text.length : i + end);
+      continue;
+    }
+
+    if (rest.startsWith('/*')) {
+      const end = rest.indexOf('*/');
+      if (end === -1) throw new AqlSyntaxError('Unterminated comment', position);
+      if (tokens.length === 0 && comment === undefined) {
+        comment = rest.slice(2, end).replace(/^\*+/, '').trim();
+      }
+      advance(i + end + 2);
+      continue;
+    }
+
+    const number = rest.match(/^\d+(\.\d+)?([eE][+-]?\d+)?/);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], ...position });
+      advance(i + number[0].length);
+      continue;
+    }
+
+    if (rest[0] === '"' || rest[0] === "'") {
+      let value = '';
+      let j = 1;
+      for (; j < rest.length && rest[j] !== rest[0]; j++) {
+        if (rest[j] === '\\') {
+          j++;
+          if (rest[j] === 'u') {
+            value += String.fromCharCode(parseInt(rest.slice(j + 1, j + 5), 16));
+            j += 4;
+          } else {
+            value += stringEscapes[rest[j]] ?? rest[j];
+          }
+        } else {
+          value += rest[j];
+        }
+      }
+      if (j >= rest.length) throw new AqlSyntaxError('Unterminated string', position);
+      tokens.push({ type: 'string', value, ...position });
+      advance(i + j + 1);
+      continue;
+    }
+
+    if (rest[0] === '`' || rest[0] === '´') {
+      const end = rest.indexOf(rest[0], 1);
+      if (end === -1) throw new AqlSyntaxError('Unterminated name', position);
+      tokens.push({ type: 'name', value: rest.slice(1, end), quoted: true, ...position });
+      advance(i + end + 1);
+      continue;
+    }
+
+    const bind = rest.match(/^@@?[\w]+/);
+    if (bind) {
+      tokens.push({ type: 'bind', value: bind[0].slice(1), ...position });
+      advance(i + bind[0].length);
+      continue;
+    }
+
+    const name = rest.match(/^[A-Za-z_$][\w$]*/);
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], ...position });
+      advance(i + name[0].length);
+      continue;
+    }
+
+    const punct = punctuation.find(p => rest.startsWith(p));
+    if (punct) {
+      tokens.push({ type: 'punct', value: punct, ...position });
+      advance(i + punct.length);
+      continue;
+    }
+
+    throw new AqlSyntaxError(`Unexpected character '${rest[0]}'`, position);
+  }
+
+  tokens.push({ type: 'eof', value: '', line, column: i - lineStart + 1 });
+  return { tokens, comment };
+}
+
+type AqlOperand =
+  | { kind: 'value'; value: unknown }
+  | { kind: 'path'; segments: string[]; function?: AqlFunction };
+
+type AqlCondition =
+  | { kind: 'and' | 'or'; items: AqlCondition[] }
+  | { kind: 'not'; item: AqlCondition }
+  | { kind: 'compare'; left: AqlOperand; operator: string; right: AqlOperand; token: AqlToken }
+  | { kind: 'operand'; operand: AqlOperand; token: AqlToken };
+
+type AqlScope = {
+  document: string;
+  collected: boolean;
+  labels: Set<string>;
+};
+
+/**
+ * A recursive-descent parser for the supported subset of AQL.
+ */
+class AqlParser {
+  protected pos = 0;
+
+  constructor(
+    protected tokens: AqlToken[],
+    protected bindVars: Record<string, unknown>,
+    protected diagnostics: AqParseDiagnostic[],
+  ) {}
+
+  parse(): AqQuery | undefined {
+    try {
+      const query = this.parseQuery();
+      if (this.peek().type !== 'eof') {
+        throw this.unexpected(this.peek());
+      }
+      return query;
+    } catch (err: unknown) {
+      if (!(err instanceof AqlSyntaxError)) throw err;
+      this.diagnostics.push(err.toDiagnostic());
+      return undefined;
+    }
+  }
+
+  protected parseQuery(): AqQuery {
+    this.expect('FOR');
+    const document = this.expectName();
+    if (this.is(',')) {
+      throw this.unsupported('Graph traversals', this.peek());
+    }
+    this.expect('IN');
+    const query: AqQuery = { collection: this.parseSource(), document };
+    const scope: AqlScope = { document, collected: false, labels: new Set() };
+
+    while (!this.is(')') && this.peek().type !== 'eof') {
+      const start = this.pos;
+      const token = this.peek();
+      try {
+        if (this.parseStatement(query, scope)) break;
+      } catch (err: unknown) {
+        if (!(err instanceof AqlSyntaxError)) throw err;
+        this.diagnostics.push(err.toDiagnostic());
+        this.recover(start);
+      }
+      if (this.pos === start) throw this.unexpected(token);
+    }
+
+    return query;
+  }
+
+  /**
+   * Parses one statement into the query; returns `true` if the statement
+   * ended the query.
+   */
+  protected parseStatement(query: AqQuery, scope: AqlScope): boolean {
+    const token = this.peek();
+    const keyword = token.type === 'name' ? token.value.toUpperCase() : '';
+
+    switch (keyword) {
+      case 'FOR': {
+        if (scope.collected) throw this.unsupported('FOR loops after COLLECT', token);
+        this.next();
+        const document = this.expectName();
+        this.expect('IN');
+        query.subqueries ??= [];
+        query.subqueries.push({ collection: this.parseSource(), document });
+        return false;
+      }
+
+      case 'LET': {
+        if (scope.collected) throw this.unsupported('LET assignments after COLLECT', token);
+        this.next();
+        const assignment = this.parseLet(scope);
+        if ('query' in assignment) {
+          query.subqueries ??= [];
+          query.subqueries.push(assignment);
+        } else {
+          query.lets = { ...query.lets, [assignment.name]: assignment.value };
+        }
+        return false;
+      }
+
+      case 'FILTER': {
+        this.next();
+        const condition = this.parseOr();
+        const conditions = condition.kind === 'and' ? condition.items : [condition];
+        const filters = conditions.map(c => this.toFilter(c, scope));
+        if (scope.collected) {
+          query.postFilters ??= [];
+          query.postFilters.push(...filters);
+        } else {
+          query.filters ??= [];
+          query.filters.push(...filters);
+        }
+        return false;
+      }
+
+      case 'COLLECT':
+        if (scope.collected) throw this.unsupported('Multiple COLLECT statements', token);
+        this.next();
+        this.parseCollect(query, scope);
+        return false;
+
+      case 'SORT':
+        this.next();
+        this.parseSort(query, scope);
+        return false;
+
+      case 'LIMIT': {
+        this.next();
+        const first = this.parseNumber();
+        if (this.accept(',')) {
+          query.offset = first;
+          query.limit = this.parseNumber();
+        } else {
+          query.limit = first;
+        }
+        return false;
+      }
+
+      case 'RETURN':
+        this.next();
+        this.parseReturn(query, scope);
+        return true;
+
+      case 'REMOVE':
+        this.next();
+        this.parseRemove(query, scope);
+        return false;
+    }
+
+    if (statementKeywords.includes(keyword)) {
+      throw this.unsupported(`${keyword} statements`, token);
+    }
+    throw this.unexpected(token);
+  }
+
+  protected parseSource(): string {
+    const token = this.next();
+    if (token.type === 'bind' && token.value.startsWith('@')) {
+      const value = this.bindValue(token);
+      if (typeof value !== 'string') {
+        throw new AqlSyntaxError(`Bind parameter @${token.value} is not a collection name`, token);
+      }
+      return value;
+    }
+    if (token.type !== 'name' || this.is('.') || this.is('[')) {
+      throw this.unsupported('Loops over anything but a collection', token);
+    }
+    return token.value;
+  }
+
+  /**
+   * Parses a LET assignment: either a subquery, or a variable holding a
+   * property (optionally with a function applied) or a literal value.
+   */
+  protected parseLet(scope: AqlScope): AqSubquery | { name: string; value: AqLet } {
+    const name = this.expectName();
+    this.expect('=');
+
+    let func: AqlFunction | undefined;
+    const token = this.peek();
+    if (token.type === 'name' && this.peek(1).value === '(' && this.isKeyword(this.peek(2), 'FOR')) {
+      func = this.toFunction(this.next());
+    }
+
+    if (!this.is('(') || !this.isKeyword(this.peek(1), 'FOR')) {
+      const operand = this.parseOperand();
+      if (!this.is(')') && this.peek().type !== 'eof' && !this.isStatement(this.peek())) {
+        throw this.unsupported('LET assignments other than properties, values and subqueries', token);
+      }
+      const value = operand.kind === 'value' ? { value: operand.value as AnyJson } : this.toProperty(operand, scope);
+      return { name, value };
+    }
+    this.expect('(');
+    const query = this.parseQuery();
+    this.expect(')');
+
+    return func ? { name, function: func, query } : { name, query };
+  }
+
+  protected parseCollect(query: AqQuery, scope: AqlScope) {
+    const aggregates: AqAggregate[] = [];
+    let count: string | false = false;
+
+    if (!this.isKeyword(this.peek(), 'AGGREGATE') && !this.isKeyword(this.peek(), 'WITH')) {
+      do {
+        const token = this.peek();
+        const name = this.expectName();
+        this.expect('=');
+        const operand = this.parseOperand();
+        if (operand.kind !== 'path' || operand.function) {
+          throw this.unsupported('COLLECT assignments other than properties', token);
+        }
+        aggregates.push({ ...this.toProperty(operand, scope, name), function: 'collect' });
+        scope.labels.add(name);
+      } while (this.accept(','));
+    }
+
+    if (this.acceptKeyword('AGGREGATE')) {
+      do {
+        const token = this.peek();
+        const name = this.expectName();
+        this.expect('=');
+        const aggregate = this.parseAggregate(scope, name);
+        if (aggregate) {
+          aggregates.push(aggregate);
+        } else if (count === false) {
+          count = name;
+        } else {
+          throw this.unsupported('Multiple COUNT(1) aggregates', token);
+        }
+        scope.labels.add(name);
+      } while (this.accept(','));
+    } else if (this.acceptKeyword('WITH')) {
+      this.expect('COUNT');
+      this.expect('INTO');
+      count = this.expectName();
+      scope.labels.add(count);
+    }
+
+    if (this.acceptKeyword('INTO')) {
+      const name = this.expectName();
+      const into: AqInto = { name };
+      if (this.accept('=')) {
+        const token = this.peek();
+        const operand = this.parseOperand();
+        if (operand.kind !== 'path') {
+          throw this.unsupported('INTO projections other than a property', token);
+        }
+        into.properties = [this.toProperty(operand, scope)];
+      } else if (this.acceptKeyword('KEEP')) {
+        into.keep = [];
+        do {
+          into.keep.push(this.expectName());
+        } while (this.accept(','));
+      }
+      query.into = into.properties || into.keep ? into : name;
+      scope.labels.add(name);
+    }
+
+    if (this.isKeyword(this.peek(), 'INTO') || this.isKeyword(this.peek(), 'KEEP') || this.isKeyword(this.peek(), 'OPTIONS')) {
+      throw this.unsupported(`COLLECT ... ${this.peek().value.toUpperCase()}`, this.peek());
+    }
+    if (aggregates.length === 0) {
+      throw this.unsupported('COLLECT statements without groups or aggregates', this.peek());
+    }
+
+    query.aggregates = aggregates;
+    query.count = count;
+    scope.collected = true;
+  }
+
+  /**
+   * Parses the right side of an AGGREGATE assignment; `COUNT(1)` is
+   * returned as `undefined`, since it's represented by {@link AqQuery.count}.
+   */
+  protected parseAggregate(scope: AqlScope, name: string): AqAggregate | undefined {
+    const token = this.next();
+    const func = token.value.toLowerCase();
+    if (token.type !== 'name' || !isAqlAggregateFunction(func) || func === 'collect') {
+      throw this.unsupported(`Aggregate function '${token.value}'`, token);
+    }
+    this.expect('(');
+
+    if (func === 'count' && this.peek().value === '1') {
+      this.next();
+      this.expect(')');
+      return undefined;
+    }
+
+    const operand = this.parseOperand();
+    this.expect(')');
+    if (operand.kind !== 'path') {
+      throw this.unsupported('Aggregates of anything but a property', token);
+    }
+
+    const numeric = ['min', 'max', 'sum', 'avg'].includes(func);
+    const unwrapped = { ...operand, function: undefined };
+    if (numeric && operand.function === 'char_length') {
+      return { ...this.toProperty(unwrapped, scope, name), function: func, type: 'string' };
+    } else if (numeric && operand.function === 'length') {
+      return { ...this.toProperty(unwrapped, scope, name), function: func };
+    } else if (operand.function) {
+      throw this.unsupported(`Aggregates of ${operand.function.toUpperCase()}() values`, token);
+    }
+
+    const aggregate: AqAggregate = {
+      ...this.toProperty(operand, scope, name),
+      function: func as AqlAggregateFunction,
+    };
+    if (numeric) aggregate.type = 'number';
+    return aggregate;
+  }
+
+  protected parseSort(query: AqQuery, scope: AqlScope) {
+    if (this.isKeyword(this.peek(), 'null')) {
+      this.next();
+      query.sorts = null;
+      return;
+    }
+
+    const sorts: AqSort[] = [];
+    do {
+      const token = this.peek();
+      const operand = this.parseOperand();
+      if (operand.kind !== 'path') {
+        throw this.unsupported('Sorting by anything but a property', token);
+      }
+      let direction: AqSort['direction'] = 'asc';
+      if (this.acceptKeyword('DESC')) direction = 'desc';
+      else this.acceptKeyword('ASC');
+      sorts.push({ ...this.toProperty(operand, scope), direction });
+    } while (this.accept(','));
+
+    query.sorts = [...(query.sorts ?? []), ...sorts];
+  }
+
+  protected parseReturn(query: AqQuery, scope: AqlScope) {
+    const token = this.peek();
+    if (this.isKeyword(token, 'DISTINCT')) {
+      throw this.unsupported('RETURN DISTINCT', token);
+    }
+
+    if (this.accept('{')) {
+      const properties: AqProperty[] = [];
+      if (!this.is('}')) {
+        do {
+          const entry = this.peek();
+          const label = this.next();
+          if (label.type !== 'name' && label.type !== 'string') throw this.unexpected(label);
+
+          let operand: AqlOperand = { kind: 'path', segments: [label.value] };
+          if (this.accept(':')) operand = this.parseOperand();
+          const property = this.toReturnProperty(operand, scope, entry, label.value);
+          if (property) properties.push(property);
+        } while (this.accept(','));
+      }
+      this.expect('}');
+      if (properties.length) query.return = properties;
+      return;
+    }
+
+    const operand = this.parseOperand();
+    if (operand.kind === 'path' && !operand.function && operand.segments.length === 1 && operand.segments[0] === scope.document) {
+      return;
+    }
+    const property = this.toReturnProperty(operand, scope, token);
+    if (property) query.return = [property];
+  }
+
+  protected toReturnProperty(
+    operand: AqlOperand,
+    scope: AqlScope,
+    token: AqlToken,
+    label?: string,
+  ): AqProperty | undefined {
+    if (operand.kind !== 'path') {
+      throw this.unsupported('Returning anything but properties', token);
+    }
+    if (scope.collected) {
+      if (operand.segments.length === 1 && scope.labels.has(operand.segments[0]) && !operand.function) {
+        return undefined;
+      }
+      this.diagnostics.push({
+        severity: 'warning',
+        message: 'Only grouped and aggregated values can be returned after COLLECT; ignoring this property',
+        line: token.line,
+        column: token.column,
+      });
+      return undefined;
+    }
+    return this.toProperty(operand, scope, label);
+  }
+
+  protected parseRemove(query: AqQuery, scope: AqlScope) {
+    const token = this.peek();
+    let remove: Omit<AqRemove, 'collection'>;
+
+    if (this.accept('{')) {
+      const key = this.next();
+      if (key.value !== '_key') throw this.unsupported('REMOVE documents other than { _key: ... }', key);
+      this.expect(':');
+      const operand = this.parseOperand();
+      this.expect('}');
+      if (operand.kind === 'value' && typeof operand.value === 'string') {
+        remove = { value: operand.value };
+      } else if (operand.kind === 'path' && !operand.function && operand.segments.length === 2 && operand.segments[0] === scope.document) {
+        remove = { property: operand.segments[1] };
+      } else {
+        throw this.unsupported('REMOVE keys other than a string or a document property', token);
+      }
+    } else {
+      const name = this.expectName();
+      if (name !== scope.document) {
+        throw this.unsupported('REMOVE documents other than the current document', token);
+      }
+      remove = { property: '_key' };
+    }
+
+    this.expect('IN');
+    const collection = this.parseSource();
+    if (this.isKeyword(this.peek(), 'OPTIONS')) {
+      throw this.unsupported('REMOVE ... OPTIONS', this.peek());
+    }
+
+    query.remove = [...(query.remove === true ? [] : query.remove ?? []), { collection, ...remove } as AqRemove];
+  }
+
+  protected parseOr(): AqlCondition {
+    const items = [this.parseAnd()];
+    while (this.acceptKeyword('OR') || this.accept('||')) {
+      items.push(this.parseAnd());
+    }
+    return items.length === 1 ? items[0] : { kind: 'or', items };
+  }
+
+  protected parseAnd(): AqlCondition {
+    const items = [this.parseNot()];
+    while (this.acceptKeyword('AND') || this.accept('&&')) {
+      items.push(this.parseNot());
+    }
+    return items.length === 1 ? items[0] : { kind: 'and', items };
+  }
+
+  protected parseNot(): AqlCondition {
+    if (this.acceptKeyword('NOT') || this.accept('!')) {
+      return { kind: 'not', item: this.parseNot() };
+    }
+    if (this.accept('(')) {
+      const condition = this.parseOr();
+      this.expect(')');
+      return condition;
+    }
+
+    const token = this.peek();
+    const left = this.parseOperand();
+    let operator: string | undefined;
+    if (this.isKeyword(this.peek(), 'NOT') && (this.isKeyword(this.peek(1), 'IN') || this.isKeyword(this.peek(1), 'LIKE'))) {
+      this.next();
+      operator = `NOT ${this.next().value.toUpperCase()}`;
+    } else {
+      const next = this.peek();
+      const candidate = next.type === 'name' ? next.value.toUpperCase() : next.value;
+      if (next.type !== 'string' && comparisonOperators.includes(candidate)) {
+        this.next();
+        operator = candidate;
+      }
+    }
+
+    if (operator === undefined) return { kind: 'operand', operand: left, token };
+    return { kind: 'compare', left, operator, right: this.parseOperand(), token };
+  }
+
+  protected parseOperand(): AqlOperand {
+    const token = this.next();
+
+    if (token.type === 'number') return { kind: 'value', value: Number(token.value) };
+    if (token.type === 'string') return { kind: 'value', value: token.value };
+    if (token.type === 'bind') {
+      if (token.value.startsWith('@')) throw this.unsupported('Collection bind parameters in expressions', token);
+      return { kind: 'value', value: this.bindValue(token) };
+    }
+    if (token.value === '-' && this.peek().type === 'number') {
+      return { kind: 'value', value: -Number(this.next().value) };
+    }
+    if (token.value === '[') {
+      const values: unknown[] = [];
+      if (!this.is(']')) {
+        do {
+          const item = this.peek();
+          const operand = this.parseOperand();
+          if (operand.kind !== 'value') throw this.unsupported('Arrays containing properties', item);
+          values.push(operand.value);
+        } while (this.accept(','));
+      }
+      this.expect(']');
+      return { kind: 'value', value: values };
+    }
+
+    if (token.type === 'name') {
+      if (!token.quoted) {
+        const word = token.value.toUpperCase();
+        if (word === 'NULL') return { kind: 'value', value: null };
+        if (word === 'TRUE') return { kind: 'value', value: true };
+        if (word === 'FALSE') return { kind: 'value', value: false };
+      }
+
+      if (this.is('(') && !token.quoted) {
+        this.next();
+        const argument = this.parseOperand();
+        if (this.is(',')) throw this.unsupported('Functions with more than one argument', this.peek());
+        this.expect(')');
+        if (argument.kind !== 'path' || argument.function) {
+          throw this.unsupported('Functions of anything but a property', token);
+        }
+        return { ...argument, function: this.toFunction(token) };
+      }
+
+      const segments = [token.value];
+      for (;;) {
+        if (this.accept('.')) {
+          segments.push(this.expectName());
+        } else if (this.is('[') && this.peek(1).type === 'number' && this.peek(2).value === ']') {
+          this.next();
+          segments[segments.length - 1] += `[${this.next().value}]`;
+          this.next();
+        } else if (this.is('[') && this.peek(1).type === 'string' && this.peek(2).value === ']') {
+          this.next();
+          const key = this.next();
+          if (!/^[^"'\\`\p{Cc}]*$/u.test(key.value)) {
+            throw this.unsupported('Quoted keys containing quotes, backslashes or control characters', key);
+          }
+          segments[segments.length - 1] += `[${JSON.stringify(key.value)}]`;
+          this.next();
+        } else {
+          break;
+        }
+      }
+      return { kind: 'path', segments };
+    }
+
+    throw this.unexpected(token);
+  }
+
+  protected toFilter(condition: AqlCondition, scope: AqlScope): AqFilter | AqFilterGroup {
+    switch (condition.kind) {
+      case 'and':
+        return { and: condition.items.map(c => this.toFilter(c, scope)) };
+      case 'or':
+        return { or: condition.items.map(c => this.toFilter(c, scope)) };
+      case 'not':
+        return { not: this.toFilter(condition.item, scope) };
+      case 'operand':
+        throw this.unsupported('Filter conditions without a comparison', condition.token);
+    }
+
+    const { left, operator, right, token } = condition;
+    const negate = ['!=', '>=', '<=', 'NOT IN', 'NOT LIKE'].includes(operator) ? { negate: true as const } : {};
+
+    if (left.kind === 'path') {
+      if (right.kind === 'path' && right.function) {
+        throw this.unsupported('Comparisons with the result of a function', token);
+      }
+      const property = this.toProperty(left, scope);
+      const dynamic = right.kind === 'path' ? { value: 'dynamic' as const } : {};
+      const value = right.kind === 'path' ? this.renderOperand(right) : right.value;
+
+      switch (operator) {
+        case '==':
+        case '!=':
+          return { ...property, eq: this.toPrimitive(value, token), ...dynamic, ...negate };
+        case '<':
+        case '>=':
+          return { ...property, lt: this.toComparable(value, token), ...dynamic, ...negate };
+        case '>':
+        case '<=':
+          return { ...property, gt: this.toComparable(value, token), ...dynamic, ...negate };
+        case 'IN':
+        case 'NOT IN':
+          if (typeof value !== 'string' && !Array.isArray(value)) {
+            throw new AqlSyntaxError('IN comparisons require an array', token);
+          }
+          return { ...property, in: value as JsonPrimitive[] | string, ...dynamic, ...negate };
+        case 'LIKE':
+        case 'NOT LIKE':
+          if (typeof value !== 'string' || right.kind === 'path') {
+            throw this.unsupported('LIKE comparisons with anything but a string', token);
+          }
+          return { ...property, contains: value, type: 'string', ...negate };
+      }
+    } else if (right.kind === 'path' && (operator === 'IN' || operator === 'NOT IN')) {
+      return {
+        ...this.toProperty(right, scope),
+        contains: this.toPrimitive(left.value, token),
+        ...negate,
+      };
+    }
+
+    throw this.unsupported('Comparisons that don\'t start with a property', token);
+  }
+
+  /**
+   * Converts a property reference to an {@link AqProperty}. References to the
+   * query's document don't need an explicit `document`; single-segment
+   * references (collected values and LET variables) don't have one at all.
+   */
+  protected toProperty(
+    operand: Extract<AqlOperand, { kind: 'path' }>,
+    scope: AqlScope,
+    name?: string,
+  ): AqProperty {
+    const [document, ...path] = operand.segments;
+    const property: AqProperty =
+      path.length === 0
+        ? { path: document, document: false }
+        : document === scope.document
+        ? { path: path.join('.') }
+        : { path: path.join('.'), document };
+
+    if (name !== undefined && name !== property.path) property.name = name;
+    if (operand.function) property.function = operand.function;
+    return property;
+  }
+
+  protected toFunction(token: AqlToken): AqlFunction {
+    const func = token.value.toLowerCase();
+    if (!isAqlFunction(func)) throw this.unsupported(`Function '${token.value}'`, token);
+    return func;
+  }
+
+  protected toPrimitive(value: unknown, token: AqlToken): JsonPrimitive {
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      return value as JsonPrimitive;
+    }
+    throw new AqlSyntaxError('Expected a string, number, boolean, or null', token);
+  }
+
+  protected toComparable(value: unknown, token: AqlToken): string | number {
+    if (typeof value === 'string' || typeof value === 'number') return value;
+    throw new AqlSyntaxError('Expected a string or a number', token);
+  }
+
+  protected renderOperand(operand: Extract<AqlOperand, { kind: 'path' }>) {
+    const path = operand.segments.join('.');
+    return operand.function ? `${operand.function.toUpperCase()}(${path})` : path;
+  }
+
+  protected parseNumber(): number {
+    const token = this.next();
+    const value = token.type === 'bind' ? this.bindValue(token) : Number(token.value);
+    if (token.type !== 'bind' && token.type !== 'number') throw this.unexpected(token);
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      throw new AqlSyntaxError('Expected a number', token);
+    }
+    return value;
+  }
+
+  protected bindValue(token: AqlToken): unknown {
+    if (!(token.value in this.bindVars)) {
+      throw new AqlSyntaxError(`Bind parameter @${token.value} has no value`, token);
+    }
+    const value = this.bindVars[token.value];
+    if (token.value.startsWith('@') && value !== null && typeof value === 'object' && 'name' in value) {
+      return (value as { name: unknown }).name;
+    }
+    return value;
+  }
+
+  /**
+   * Skips ahead to the next statement at the current nesting level.
+   */
+  protected recover(start: number) {
+    if (this.pos === start) this.next();
+    let depth = 0;
+    while (this.peek().type !== 'eof') {
+      const token = this.peek();
+      if (['(', '[', '{'].includes(token.value)) depth++;
+      if ([')', ']', '}'].includes(token.value)) {
+        if (depth === 0) return;
+        depth--;
+      }
+      if (depth === 0 && this.isStatement(token)) return;
+      this.next();
+    }
+  }
+
+  protected isStatement(token: AqlToken) {
+    const previous = this.tokens[this.tokens.indexOf(token) - 1];
+    return (
+      token.type === 'name' &&
+      !token.quoted &&
+      previous?.value !== '.' &&
+      statementKeywords.includes(token.value.toUpperCase())
+    );
+  }
+
+  protected peek(offset = 0): AqlToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  protected next(): AqlToken {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  protected is(punct: string) {
+    const token = this.peek();
+    return token.type === 'punct' && token.value === punct;
+  }
+
+  protected isKeyword(token: AqlToken, keyword: string) {
+    return token.type === 'name' && !token.quoted && token.value.toUpperCase() === keyword.toUpperCase();
+  }
+
+  protected accept(punct: string) {
+    if (!this.is(punct)) return false;
+    this.next();
+    return true;
+  }
+
+  protected acceptKeyword(keyword: string) {
+    if (!this.isKeyword(this.peek(), keyword)) return false;
+    this.next();
+    return true;
+  }
+
+  protected expect(expected: string) {
+    const token = this.peek();
+    if (token.type === 'punct' ? token.value === expected : this.isKeyword(token, expected)) {
+      return this.next();
+    }
+    throw new AqlSyntaxError(`Expected '${expected}' but found ${describe(token)}`, token);
+  }
+
+  protected expectName(): string {
+    const token = this.next();
+    if (token.type !== 'name') {
+      throw new AqlSyntaxError(`Expected a name but found ${describe(token)}`, token);
+    }
+    return token.value;
+  }
+
+  protected unexpected(token: AqlToken) {
+    return new AqlSyntaxError(`Unexpected ${describe(token)}`, token);
+  }
+
+  protected unsupported(construct: string, token: AqlToken) {
+    return new AqlSyntaxError(`${construct} can't be represented as an AqQuery`, token);
+  }
+}
+
+function describe(token: AqlToken) {
+  return token.type === 'eof' ? 'end of query' : `'${token.value}'`;
+}
@@ -0,0 +1,297 @@
+import { JsonPrimitive } from '@salesforce/ts-types';
+import { AqProperty, AqFilter, AqExpression } from './property.js';
+
+/**
+ * The dot-notation paths of a document type, including array indexes; for
+ * example, `url.domain` or `children[0].name`. If the document type is
+ * unknown, any string is accepted.
+ *
+ * Paths are generated up to five levels deep.
+ *
+ * @example
+ * ```
+ * type Page = { url: { domain: string }; tags: string[] };
+ * const p: AqPath<Page> = 'tags[0]';
+ * ```
+ */
+export type AqPath<TDoc> = unknown extends TDoc
+  ? string
+  : {
+      [K in keyof TDoc & string]:
+        | K
+        | `${K}${DescendantPath<NonNullable<TDoc[K]>, 4>}`;
+    }[keyof TDoc & string];
+
+/**
+ * The type of the value found at a particular {@link AqPath} of a document type.
+ */
+export type AqPathValue<TDoc, P extends string> = unknown extends TDoc
+  ? unknown
+  : ValueAt<TDoc, IndexesAsSegments<P>>;
+
+/**
+ * The values a property of a given type can be compared to when filtering.
+ * If the property's type is unknown, any JSON primitive is accepted.
+ */
+export type AqFilterValue<V> = unknown extends V
+  ? JsonPrimitive | JsonPrimitive[]
+  : Comparable<V> | Comparable<V>[];
+
+/**
+ * A property definition whose path is checked against the query's document
+ * type. Properties that explicitly name their `document` refer to another
+ * variable, and aren't checked; the paths in expressions are.
+ */
+export type AqDocumentProperty<
+  TDoc,
+  T extends AqProperty = AqProperty,
+> = unknown extends TDoc
+  ? T
+  :
+      | (T & { document: string | false })
+      | (Omit<T, 'name' | 'path' | 'document' | 'expression'> &
+          PathOf<AqPath<TDoc>>)
+      | (Omit<T, 'name' | 'path' | 'document' | 'expression'> &
+          ExpressionOf<TDoc>);
+
+/**
+ * A filter definition whose path is checked against the query's document
+ * type, and whose comparison values are checked against the type at that path.
+ * Filters on other document variables, and filters comparing `dynamic` values,
+ * aren't checked.
+ */
+export type AqDocumentFilter<TDoc> = unknown extends TDoc
+  ? AqFilter
+  :
+      | (AqFilter & ({ document: string | false } | { value: 'dynamic' }))
+      | (Omit<AqFilter, 'name' | 'path' | 'document' | 'expression'> &
+          ExpressionOf<TDoc>)
+      | {
+          [P in AqPath<TDoc>]: Omit<
+            AqFilter,
+            | 'name'
+            | 'path'
+            | 'document'
+            | 'expression'
+            | 'eq'
+            | 'in'
+            | 'lt'
+            | 'gt'
+            | 'contains'
+            | 'like'
+            | 'startsWith'
+            | 'endsWith'
+            | 'regex'
+            | 'fuzzy'
+          > &
+            PathOf<P> &
+            FilterConditions<AqPathValue<TDoc, P>>;
+        }[AqPath<TDoc>];
+
+/**
+ * Prevents a type parameter from being inferred from a particular argument,
+ * so that untyped specs don't narrow a builder's document type.
+ */
+export type AqNoInfer<T> = [T][T extends unknown ? 0 : never];
+
+type PathOf<P extends string> =
+  | { document?: undefined; path: P; name?: string }
+  | { document?: undefined; path?: undefined; name: P };
+
+type ExpressionOf<TDoc> = {
+  document?: undefined;
+  path?: undefined;
+  name?: string;
+  expression: AqExpression<AqPath<TDoc>>;
+};
+
+type FilterConditions<V> = {
+  eq?: Comparable<V>;
+  in?: Comparable<V>[];
+  lt?: Extract<NonNullable<V>, string | number>;
+  gt?: Extract<NonNullable<V>, string | number>;
+  contains?: NonNullable<V> extends string
+    ? string
+    : NonNullable<V> extends readonly (infer E)[]
+    ? Extract<E, JsonPrimitive>
+    : never;
+  like?: StringCondition<V, string>;
+  startsWith?: StringCondition<V, string>;
+  endsWith?: StringCondition<V, string>;
+  regex?: StringCondition<V, string>;
+  fuzzy?: StringCondition<V, { text: string; distance: number }>;
+};
+
+// Text matching conditions can only be used on string properties.
+type StringCondition<V, C> = NonNullable<V> extends string ? C : never;
+
+type Comparable<V> =
+  | Extract<NonNullable<V>, JsonPrimitive>
+  | (null extends V ? null : undefined extends V ? null : never);
+
+type Leaf = JsonPrimitive | Date | ((...args: never[]) => unknown);
+
+type Depth = [never, 0, 1, 2, 3, 4];
+
+type DescendantPath<V, D extends number> = [D] extends [never]
+  ? never
+  : V extends Leaf
+  ? never
+  : V extends readonly (infer E)[]
+  ? `[${number}]` | `[${number}]${DescendantPath<NonNullable<E>, Depth[D]>}`
+  : V extends object
+  ? {
+      [K in keyof V & string]:
+        | `.${K}`
+        | `.${K}${DescendantPath<NonNullable<V[K]>, Depth[D]>}`;
+    }[keyof V & string]
+  : never;
+
+// Rewrites array indexes as path segments: `a[0].b` becomes `a.#.b`.
+type IndexesAsSegments<P extends string> =
+  P extends `${infer Head}[${number}]${infer Rest}`
+    ? `${Head}.#${IndexesAsSegments<Rest>}`
+    : P;
+
+type ValueAt<V, P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? ValueAt<Step<V, Head>, Rest>
+  : Step<V, P>;
+
+type Step<V, K extends string> = K extends ''
+  ? V
+  : K extends '#'
+  ? NonNullable<V> extends readonly (infer E)[]
+    ? E
+    : never
+  : K extends keyof NonNullable<V>
+  ? NonNullable<V>[K]
+  : never;
+
+/**
+ * Words AQL reserves; attributes with these names have to be quoted, and they
+ * can't be used as variable names.
+ */
+const aqlKeywords = new Set([
+  'aggregate', 'all', 'all_shortest_paths', 'and', 'any', 'asc', 'collect',
+  'desc', 'distinct', 'false', 'filter', 'for', 'graph', 'in', 'inbound',
+  'insert', 'into', 'k_paths', 'k_shortest_paths', 'let', 'like', 'limit',
+  'none', 'not', 'null', 'or', 'outbound', 'remove', 'replace', 'return',
+  'search', 'shortest_path', 'sort', 'true', 'update', 'upsert', 'window',
+  'with',
+]);
+
+/**
+ * The names that can be used for variables: identifiers that aren't reserved
+ * words. Keywords are matched in any case, as they are in AQL; the pattern
+ * spells that out rather than using the `i` flag, so that it still works when
+ * exported to JSON schema.
+ */
+export const variableNamePattern = new RegExp(
+  `^(?!(?:${[...aqlKeywords]
+    .map(k => k.replace(/[a-z]/g, c => `[${c}${c.toUpperCase()}]`))
+    .join('|')})$)[A-Za-z_][A-Za-z0-9_]*$`,
+);
+
+/**
+ * The attribute names that can be used in paths and object literals: letters,
+ * digits, `_` and `$`, along with inner spaces and hyphens.
+ */
+export const attributeNamePattern = /^[\p{L}\p{N}_$](?:[\p{L}\p{N}_$ -]*[\p{L}\p{N}_$-])?$/u;
+const arrayIndex = /^(-?\d+|\*{1,2})$/;
+const quotedKey = /^(["'])([^"'\\`\p{Cc}]*)\1$/u;
+
+/**
+ * Renders an attribute path as AQL, quoting any attribute names that aren't
+ * plain identifiers with backticks. Paths are dot-separated attribute names,
+ * each optionally followed by bracketed array indexes (`[0]`, `[-1]`), array
+ * expansions (`[*]`, `[**]`), or quoted keys (`["a.b"]`). If no `variable` is
+ * given, the path's first segment is treated as one.
+ *
+ * Anything else, like operators, parentheses or stray quotes, throws a
+ * TypeError, so paths from untrusted input can't alter the query.
+ *
+ * @example
+ * ```
+ * renderAttributePath('headers.content-type', 'item')
+ * // item.headers.`content-type`
+ * ```
+ */
+export function renderAttributePath(path: string, variable?: string): string {
+  const fail = (reason: string) =>
+    new TypeError(`Invalid attribute path '${path}': ${reason}`);
+
+  if (path.length === 0) throw fail('paths can\'t be empty');
+
+  let output = variable === undefined ? '' : renderVariable(variable);
+  let rest = path;
+  let first = variable === undefined;
+  while (rest.length) {
+    const end = rest.search(/[.[]/);
+    const name = end === -1 ? rest : rest.slice(0, end);
+    if (first) {
+      if (!isVariableName(name)) throw fail(`'${name}' isn't a valid variable name`);
+      output += name;
+    } else if (name.length === 0 || name.trim() !== name) {
+      throw fail('attribute names can\'t be empty or padded');
+    } else if (!attributeNamePattern.test(name)) {
+      throw fail(`'${name}' isn't a valid attribute name`);
+    } else {
+      output += '.' + quoteAttribute(name);
+    }
+    first = false;
+    rest = end === -1 ? '' : rest.slice(end);
+
+    // Any number of bracketed indexes can follow an attribute.
+    while (rest.startsWith('[')) {
+      const close = rest.indexOf(']');
+      if (close === -1) throw fail('unclosed bracket');
+      const index = rest.slice(1, close).trim();
+      const key = quotedKey.exec(index);
+      if (arrayIndex.test(index)) {
+        output += `[${index}]`;
+      } else if (key) {
+        output += `[${JSON.stringify(key[2])}]`;
+      } else {
+        throw fail(`'[${index}]' isn't an array index or quoted key`);
+      }
+      rest = rest.slice(close + 1);
+    }
+
+    if (rest.startsWith('.')) {
+      rest = rest.slice(1);
+      if (rest.length === 0) throw fail('attribute names can\'t be empty or padded');
+    } else if (rest.length) {
+      throw fail(`unexpected '${rest[0]}'`);
+    }
+  }
+  return output;
+}
+
+/**
+ * Checks that a string can be used as an AQL variable name, and returns it.
+ */
+export function renderVariable(name: string): string {
+  if (!isVariableName(name)) {
+    throw new TypeError(`'${name}' is not a valid variable name`);
+  }
+  return name;
+}
+
+/**
+ * Checks that a string can be used as an attribute name in an object literal,
+ * and returns it; names that aren't plain identifiers are quoted with backticks.
+ */
+export function renderAttributeName(name: string): string {
+  if (!attributeNamePattern.test(name)) {
+    throw new TypeError(`'${name}' is not a valid attribute name`);
+  }
+  return quoteAttribute(name);
+}
+
+function isVariableName(name: string) {
+  return variableNamePattern.test(name);
+}
+
+function quoteAttribute(name: string) {
+  return isVariableName(name) ? name : `\`${name}\``;
+}
@@ -0,0 +1,189 @@
+import { ArangoCollection } from 'arangojs/collection.js';
+import { JsonMap, JsonPrimitive } from '@salesforce/ts-types';
+import { AqAggregate, AqProperty } from './property.js';
+import { AqQuery, AqSubquery } from './query.js';
+
+export interface AqProfileOptions {
+  /**
+   * The number of most common values listed for each property.
+   *
+   * @defaultValue 10
+   */
+  top?: number;
+}
+
+/**
+ * The summary of a single property returned by a {@link profileCollection} query.
+ * Null values are counted, but ignored by every other statistic; `min`, `max`
+ * and `avg` only consider numbers.
+ */
+export type AqPropertyProfile = {
+  total: number;
+  nulls: number;
+  nullRate: number | null;
+  distinctValues: number;
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+  types: { type: string; count: number }[];
+  top: { value: JsonPrimitive; count: number }[];
+};
+
+/**
+ * Builds a query that profiles the documents of a collection. For each
+ * property, it counts the documents, the null values and the distinct values,
+ * summarizes its numeric values, and lists its types and most common values,
+ * each with the number of documents they appear in. The query returns a
+ * single object, keyed by the properties' paths, along with the number of
+ * `documents` in the collection.
+ *
+ * Properties are given as a list of paths, or as a sample document whose
+ * paths (including nested ones) are profiled.
+ *
+ * @example
+ * ```
+ * const spec = profileCollection('pages', ['status', 'url.domain'], { top: 5 });
+ * const [profile] = await (await db.query(buildQuery(spec))).all();
+ * // profile['url.domain'].top: [{ value: 'example.com', count: 120 }, ...]
+ * ```
+ */
+export function profileCollection(
+  collection: string | ArangoCollection,
+  properties: string[] | JsonMap,
+  options: AqProfileOptions = {},
+): AqQuery {
+  const paths = Array.isArray(properties) ? properties : samplePaths(properties);
+  if (paths.length === 0) {
+    throw new TypeError('Profiles require at least one property');
+  }
+
+  if (paths.some((p, i) => p === 'documents' || paths.indexOf(p) !== i)) {
+    throw new TypeError(`Profiled properties must be unique, and can't be 'documents'`);
+  }
+
+  // Each profile is assigned to a numbered variable, and returned under its
+  // path as a quoted attribute name; paths don't have to be valid variable
+  // names, and can't collide with the profiles' own variables.
+  const profiles = paths.map((path, i) =>
+    profileProperty(collection, path, `profile_${i}`, options.top ?? 10),
+  );
+  return {
+    subqueries: [
+      { name: 'documents', function: 'count', query: { collection } },
+      ...profiles,
+    ],
+    return: [
+      { path: 'documents', document: false },
+      ...paths.map((path, i): AqProperty => ({
+        name: `\`${path}\``,
+        path: profiles[i].name,
+        document: false,
+      })),
+    ],
+  };
+}
+
+function profileProperty(
+  collection: string | ArangoCollection,
+  path: string,
+  name: string,
+  top: number,
+): AqSubquery & { name: string } {
+  // Only numbers are passed to MIN, MAX and AVG; they skip the nulls.
+  const number: AqProperty = {
+    path,
+    type: 'number',
+    expression: {
+      if: { path, function: 'typename', eq: 'number' },
+      then: path,
+      else: { value: null },
+    },
+  };
+  const stats: AqAggregate[] = [
+    {
+      name: 'nulls',
+      type: 'number',
+      function: 'sum',
+      expression: {
+        if: { path, eq: null },
+        then: { value: 1 },
+        else: { value: 0 },
+      },
+    },
+    { name: 'distinctValues', path, function: 'count_distinct' },
+    { ...number, name: 'min', function: 'min' },
+    { ...number, name: 'max', function: 'max' },
+    { ...number, name: 'avg', function: 'avg' },
+  ];
+
+  const fromStats = (name: string): AqProperty => ({
+    name,
+    path: `stats.${name}`,
+    document: false,
+  });
+  return {
+    name,
+    function: 'first',
+    query: {
+      subqueries: [
+        {
+          name: 'stats',
+          function: 'first',
+          query: { collection, aggregates: stats },
+        },
+        {
+          name: 'types',
+          query: {
+            collection,
+            aggregates: [{ name: 'type', path, function: ['typename', 'collect'] }],
+            count: 'count',
+            sorts: [{ path: 'count', document: false, direction: 'desc' }],
+          },
+        },
+        {
+          name: 'top',
+          query: {
+            collection,
+            filters: [{ path, eq: null, negate: true }],
+            aggregates: [{ name: 'value', path, function: 'collect' }],
+            count: 'count',
+            sorts: [
+              { path: 'count', document: false, direction: 'desc' },
+              { path: 'value', document: false, direction: 'asc' },
+            ],
+            limit: top,
+          },
+        },
+      ],
+      return: [
+        fromStats('total'),
+        fromStats('nulls'),
+        {
+          name: 'nullRate',
+          expression: { divide: ['stats.nulls', 'stats.total'] },
+          document: false,
+        },
+        fromStats('distinctValues'),
+        fromStats('min'),
+        fromStats('max'),
+        fromStats('avg'),
+        { path: 'types', document: false },
+        { path: 'top', document: false },
+      ],
+    },
+  };
+}
+
+// The paths of a sample document's values; nested objects are profiled
+// property by property, while arrays are profiled as whole values.
+function samplePaths(sample: JsonMap, prefix = ''): string[] {
+  return Object.entries(sample).flatMap(([key, value]) =>
+    isJsonMap(value)
+      ? samplePaths(value, `${prefix}${key}.`)
+      : [`${prefix}${key}`],
+  );
+}
+
+function isJsonMap(value: unknown): value is JsonMap {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -2,8 +2,11 @@ import { JsonPrimitive } from '@salesforce/ts-types';
 import {
   SupportedAqlFunctions,
   SupportedAqlAggregateFunctions,
+  AqlScoringFunctions,
+  AqlFunctionArguments,
 } from './type-guards.js';
 export type AqlFunction = keyof typeof SupportedAqlFunctions;
+export type AqlScoringFunction = typeof AqlScoringFunctions[number];
 export type AqlAggregateFunction = keyof typeof SupportedAqlAggregateFunctions;
 export type SortDirection = keyof typeof sortMap;
 
@@ -80,6 +83,10 @@ export type AqProperty = RequireAtLeastOne<
      *
      * Alternately, a friendly label can be given here and the dot-notation path can be set
      * in the {@link AqProperty.path} property.
+     *
+     * Labels are turned into variable names, replacing dots, brackets and the like with
+     * underscores. A returned property's label can be wrapped in backticks instead, to
+     * return it under exactly that attribute name.
      */
     name?: string;
 
@@ -101,16 +108,36 @@ export type AqProperty = RequireAtLeastOne<
     /**
      * A function to wrap the property in once it's retrieved; this can be useful
      * for returning the COUNT of a particular attribute rather than the attribute
-     * itself.
+     * itself. A list of {@link AqFunctionCall|calls} is applied in order, each
+     * one wrapping the last; calls can pass additional arguments.
      *
      * Light validation is done *if* the property has its `type` set; otherwise,
      * we only ensure that the function is a known one.
      *
      * @example `const prop: AqProperty = { name: 'property', function: 'count' }`
+     * @example `const prop: AqProperty = { name: 'month', path: 'date', function: [{ name: 'date_trunc', args: ['month'] }] }`
      *
      * @experimental
      */
-    function?: AqlFunction;
+    function?: AqlFunction | [AqFunctionCall, ...AqFunctionCall[]];
+
+    /**
+     * An {@link AqExpression} that computes the property's value from other
+     * properties and literal values; it's used in place of a path, and any
+     * `function` is applied to its result. Returned and collected expression
+     * properties need a `name`.
+     *
+     * @example `const prop: AqProperty = { name: 'ratio', expression: { divide: ['bytes', 'requests'] } }`
+     */
+    expression?: AqExpression;
+
+    /**
+     * A point to measure the distance to. If it's set, the property is a GeoJSON
+     * value, and its distance in meters from the point is used in its place.
+     *
+     * @example `const prop: AqProperty = { name: 'location', distance: [13.4, 52.5] }`
+     */
+    distance?: AqGeoPoint;
 
     /**
      * The data type of the property in question. Generally, this is only necessary
@@ -119,9 +146,80 @@ export type AqProperty = RequireAtLeastOne<
      */
     type?: 'string' | 'number' | 'boolean' | 'object' | 'array';
   },
-  'name' | 'path'
+  'name' | 'path' | 'expression'
 >;
 
+/**
+ * The AQL operators used by arithmetic and fallback {@link AqExpression|expressions}.
+ */
+export const expressionOperators = {
+  add: '+',
+  subtract: '-',
+  multiply: '*',
+  divide: '/',
+  modulo: '%',
+  coalesce: '?:',
+};
+
+/**
+ * A value computed from several operands. Arithmetic operators and `coalesce`
+ * are applied left to right; `concat` joins its operands as strings, and
+ * `coalesce` falls back to each following operand when the one before it is
+ * null, false, zero or empty. `if` picks between two operands using a filter condition.
+ *
+ * @example
+ * ```
+ * const full: AqExpression = { concat: ['first', { value: ' ' }, 'last'] }
+ * // AQL output: CONCAT(item.first, @value0, item.last)
+ * const rate: AqExpression = { divide: ['bytes', { coalesce: ['requests', { value: 1 }] }] }
+ * // AQL output: (item.bytes / (item.requests ?: @value0))
+ * ```
+ */
+export type AqExpression<TPath extends string = string> =
+  | {
+      [K in keyof typeof expressionOperators | 'concat']: {
+        [O in K]: [AqOperand<TPath>, AqOperand<TPath>, ...AqOperand<TPath>[]];
+      };
+    }[keyof typeof expressionOperators | 'concat']
+  | {
+      if: AqFilter | AqFilterGroup;
+      then: AqOperand<TPath>;
+      else: AqOperand<TPath>;
+    };
+
+/**
+ * One operand of an {@link AqExpression}: a property path, a full property, a
+ * literal value (passed as a bind parameter), or another expression. Paths use
+ * the document of the property the expression belongs to.
+ */
+export type AqOperand<TPath extends string = string> =
+  | TPath
+  | AqProperty
+  | { value: JsonPrimitive }
+  | AqExpression<TPath>;
+
+/**
+ * One step in a chain of functions applied to a property. Functions that take
+ * arguments in addition to the property's value are given them in `args`;
+ * they're passed to the query as bind parameters.
+ *
+ * @example
+ * ```
+ * const p: AqProperty = {
+ *   path: 'title',
+ *   function: ['trim', { name: 'left', args: [20] }, 'lower'],
+ * }
+ * // AQL output: LOWER(LEFT(TRIM(item.title), @value0))
+ * ```
+ */
+export type AqFunctionCall = {
+  [F in AqlFunction]: F extends keyof typeof AqlFunctionArguments
+    ? typeof AqlFunctionArguments[F][0] extends 0
+      ? F | { name: F; args?: JsonPrimitive[] }
+      : { name: F; args: [JsonPrimitive, ...JsonPrimitive[]] }
+    : F | { name: F; args?: [] };
+}[AqlFunction];
+
 export type AqAggregate = AqProperty & {
   /**
    * An aggregation function to apply to the property. Supported values:
@@ -138,8 +236,11 @@ export type AqAggregate = AqProperty & {
    *
    * If numeric functions (min, max, sum, avg) are used on string or array
    * properties, the function is applied to the length of the property.
+   *
+   * The aggregation function can also end a chain of {@link AqFunctionCall|calls}
+   * that are applied to the property first, e.g. `['lower', 'count_distinct']`.
    */
-  function: AqlAggregateFunction;
+  function: AqlAggregateFunction | [...AqFunctionCall[], AqlAggregateFunction];
 };
 
 export type AqSort = AqProperty & {
@@ -180,6 +281,61 @@ export type AqFilter = AqProperty & {
    */
   contains?: JsonPrimitive;
 
+  /**
+   * Filters the query result to documents where the property **matches the
+   * specified text** with LIKE. Any `%` or `_` characters are escaped, and
+   * matched literally.
+   */
+  like?: string;
+
+  /**
+   * Filters the query result to documents where the property **starts with**
+   * the specified text.
+   */
+  startsWith?: string;
+
+  /**
+   * Filters the query result to documents where the property **ends with**
+   * the specified text.
+   */
+  endsWith?: string;
+
+  /**
+   * Filters the query result to documents where the property **matches the
+   * specified regular expression**.
+   */
+  regex?: string;
+
+  /**
+   * Filters the query result to documents where the property is **within the
+   * given Levenshtein distance** of the specified text.
+   */
+  fuzzy?: { text: string; distance: number };
+
+  /**
+   * Ignores case when matching `like`, `startsWith`, `endsWith`, `regex` and
+   * `fuzzy` conditions.
+   */
+  caseInsensitive?: true;
+
+  /**
+   * Filters the query result to documents where the property is a GeoJSON value
+   * **within the given radius**, in meters, of a point.
+   */
+  near?: { point: AqGeoPoint; radius: number };
+
+  /**
+   * Filters the query result to documents where the property is a GeoJSON value
+   * **inside the specified polygon**.
+   */
+  within?: AqGeoJson;
+
+  /**
+   * Filters the query result to documents where the property is a GeoJSON value
+   * that **intersects the specified shape**.
+   */
+  intersects?: AqGeoJson;
+
   /**
    * Indicates whether the comparison value is a literal or a reference to another variable in the query.
    */
@@ -191,3 +347,116 @@ export type AqFilter = AqProperty & {
    */
   negate?: true;
 };
+
+/**
+ * A geographic point, as a `[longitude, latitude]` pair.
+ */
+export type AqGeoPoint = [longitude: number, latitude: number];
+
+/**
+ * A GeoJSON geometry, used to filter documents by location.
+ *
+ * @example A polygon
+ * ```
+ * const g: AqGeoJson = {
+ *   type: 'Polygon',
+ *   coordinates: [[[13.3, 52.4], [13.5, 52.4], [13.5, 52.6], [13.3, 52.4]]],
+ * }
+ * ```
+ */
+export type AqGeoJson = {
+  type:
+    | 'Point'
+    | 'MultiPoint'
+    | 'LineString'
+    | 'MultiLineString'
+    | 'Polygon'
+    | 'MultiPolygon';
+  coordinates: AqGeoCoordinates;
+};
+type AqGeoCoordinates = number[] | AqGeoCoordinates[];
+
+/**
+ * A search condition, rendered into the `SEARCH` clause of a query whose source is
+ * an ArangoSearch {@link AqQuery.view|view}. Multiple conditions on the same
+ * property must all match.
+ *
+ * @example A phrase match using a text analyzer
+ * ```
+ * const s: AqSearch = { path: 'body', phrase: 'content strategy', analyzer: 'text_en' }
+ * // AQL output: SEARCH ANALYZER(PHRASE(item.body, @value0), @value1)
+ * ```
+ */
+export type AqSearch = AqProperty & {
+  /**
+   * The name of the analyzer used to process the search conditions.
+   */
+  analyzer?: string;
+
+  /**
+   * Matches documents where the property is **equal to** the specified value.
+   */
+  eq?: JsonPrimitive;
+
+  /**
+   * Matches documents where the property is **less than** the specified value.
+   */
+  lt?: string | number;
+
+  /**
+   * Matches documents where the property is **greater than** the specified value.
+   */
+  gt?: string | number;
+
+  /**
+   * Matches documents where the property is **one of the specified values**.
+   */
+  in?: JsonPrimitive[];
+
+  /**
+   * Matches documents where the property contains the specified phrase.
+   */
+  phrase?: string;
+
+  /**
+   * Matches documents where the property contains any of the tokens the
+   * {@link AqSearch.analyzer|analyzer} produces from the specified text.
+   */
+  tokens?: string;
+
+  /**
+   * Matches documents where the property starts with the specified prefix, or
+   * with any of a list of prefixes.
+   */
+  startsWith?: string | string[];
+
+  /**
+   * Multiplies the relevance score of documents matching this condition.
+   */
+  boost?: number;
+
+  /**
+   * Excludes documents that match the search conditions.
+   */
+  negate?: true;
+};
+
+/**
+ * Combines several filters into a single boolean expression. Groups can be
+ * nested to any depth.
+ *
+ * @example Either condition can match
+ * ```
+ * const f: AqFilterGroup = {
+ *   or: [
+ *     { path: 'status', eq: 404 },
+ *     { path: 'mime', contains: 'image/%', type: 'string' },
+ *   ]
+ * }
+ * // AQL output: FILTER (item.status == @value0 OR item.mime LIKE @value1)
+ * ```
+ */
+export type AqFilterGroup<T = AqFilter> =
+  | { or: (T | AqFilterGroup<T>)[] }
+  | { and: (T | AqFilterGroup<T>)[] }
+  | { not: T | AqFilterGroup<T> };
@@ -1,14 +1,40 @@
 import { ArangoCollection, isArangoCollection } from 'arangojs/collection.js';
-import { AqProperty, AqAggregate, AqSort, AqFilter } from './property.js';
-import { RequireExactlyOne } from './type-guards.js';
+import { Graph } from 'arangojs/graph.js';
+import { View } from 'arangojs/view.js';
+import {
+  AqProperty,
+  AqAggregate,
+  AqSort,
+  AqFilter,
+  AqFilterGroup,
+  AqSearch,
+  AqlFunction,
+} from './property.js';
+import {
+  RequireExactlyOne,
+  aggregateFunction,
+  isAqSubquery,
+} from './type-guards.js';
+import { AnyJson } from '@salesforce/ts-types';
+import {
+  AqPath,
+  AqDocumentProperty,
+  AqDocumentFilter,
+  renderVariable,
+} from './paths.js';
+import { AqQueryOptions } from './execute.js';
+import { AqTypeMap, applyTypes } from './schema.js';
 
 /**
  * A structured description of a simple Arango query.
  *
  * Although this format can't express AQL's full capabilities, it supports
  * the essentials:
+ *
+ * If a document type is given, the paths of filters, sorts, aggregates and
+ * returned properties are checked against it.
  */
-export type AqQuery = {
+export type AqQuery<TDoc = unknown> = {
   /**
    * A human-readable comment that will be embedded into the query without affecting the data returned.
    */
@@ -26,9 +52,45 @@ export type AqQuery = {
 
   /**
    * The name of the collection to query, or a direct reference to an
-   * {@link ArangoCollection} instance.
+   * {@link ArangoCollection} instance. Required unless a {@link AqQuery.traversal|traversal}
+   * or a {@link AqQuery.view|view} is used as the query's source.
+   *
+   * A query without any source can still assign {@link AqQuery.subqueries|subqueries}
+   * and {@link AqQuery.lets|variables}, and returns a single result built from
+   * its {@link AqQuery.return|return} values.
    */
-  collection: string | ArangoCollection;
+  collection?: string | ArangoCollection;
+
+  /**
+   * The name of an ArangoSearch view to query, or a direct reference to a
+   * {@link View} instance. Views are queried using {@link AqQuery.search|search}
+   * conditions rather than filters.
+   */
+  view?: string | View;
+
+  /**
+   * A graph traversal to use as the query's source, instead of a collection.
+   * The traversal's vertex variable becomes the query's {@link AqQuery.document|document};
+   * properties can target the edge or path variables via their own `document` value.
+   */
+  traversal?: AqTraversal;
+
+  /**
+   * Other collections to join to the query's documents. Each joined document
+   * is available under its own variable, which properties can target via their
+   * `document` value.
+   */
+  joins?: AqJoin[];
+
+  /**
+   * Conditions that tie a subquery's documents to the documents of the query
+   * it's nested in. Keys are paths in the subquery's document; values are
+   * paths in the parent query's document, or properties of any variable an
+   * enclosing query defines.
+   *
+   * @example `{ collection: 'responses', correlate: { page: '_key' } }`
+   */
+  correlate?: Record<string, string | AqProperty>;
 
   /**
    * The AQL variable name used to refer to individual documents in the
@@ -55,17 +117,51 @@ export type AqQuery = {
    */
   subqueries?: (AqSubquery | AqQuery)[];
 
+  /**
+   * Variables computed for each document, keyed by name, and rendered as `LET`
+   * statements after any subqueries. Filters, sorts, aggregates and returned
+   * properties can refer to them by name, without a `document` prefix.
+   */
+  lets?: Record<string, AqPath<TDoc> | AqLet>;
+
+  /**
+   * Filters applied before any {@link AqQuery.subqueries|subqueries} are run;
+   * useful for skipping expensive subqueries on documents that won't be returned.
+   */
+  preFilters?: (AqFilterShorthand<TDoc> | AqFilterGroup<AqFilterShorthand<TDoc>>)[];
+
   /**
    * A list of {@link AqFilter} definitions, property names, or property
-   * name/path pairs to filter by when querying the collection.
+   * name/path pairs to filter by when querying the collection. Filters can be
+   * combined into `or`, `and`, and `not` {@link AqFilterGroup|groups}.
+   *
+   * Filters are applied after subqueries, but before results are collected
+   * or aggregated.
+   */
+  filters?: (AqFilterShorthand<TDoc> | AqFilterGroup<AqFilterShorthand<TDoc>>)[];
+
+  /**
+   * Filters applied after results are collected or aggregated, but before
+   * they're sorted and limited. In aggregate queries, property names refer to
+   * the collected and aggregated values rather than the document's properties.
    */
-  filters?: (AqPropertyName | AqPropertyNameAndPath | AqFilter)[];
+  postFilters?: (AqFilterShorthand | AqFilterGroup<AqFilterShorthand>)[];
+
+  /**
+   * A list of {@link AqSearch} conditions, or groups of them, used to build the
+   * `SEARCH` clause of a {@link AqQuery.view|view} query. All of the entries must match.
+   */
+  search?: (AqSearch | AqFilterGroup<AqSearch>)[];
 
   /**
    * A list of {@link AqAggregate} definitions, property names, or property
    * name/path pairs to group or aggregate results by.
    */
-  aggregates?: (AqPropertyName | AqPropertyNameAndPath | AqAggregate)[];
+  aggregates?: (
+    | AqPath<TDoc>
+    | AqPropertyNameAndPath<TDoc>
+    | AqDocumentProperty<TDoc, AqAggregate>
+  )[];
 
   /**
    * The label to use for record counts when building aggregate queries.
@@ -78,7 +174,23 @@ export type AqQuery = {
   /**
    * A list of properties to {@link AqSort} results by.
    */
-  sorts?: (AqPropertyName | AqSort)[] | null;
+  sorts?: (AqPath<TDoc> | AqDocumentProperty<TDoc, AqSort>)[] | null;
+
+  /**
+   * Stores the documents in each group of a collect or aggregate query in an
+   * array variable, which can be returned or counted. A string names the
+   * variable; an {@link AqInto} can also project each document to a subset
+   * of its properties, or choose the variables to KEEP.
+   */
+  into?: string | AqInto;
+
+  /**
+   * A list of {@link AqWindow} operations that aggregate each result together
+   * with its neighbors, for running totals and moving averages. Windows are
+   * applied after results are collected and filtered, but before they're
+   * sorted and limited.
+   */
+  windows?: AqWindow<TDoc>[];
 
   /**
    * The maximum number of records to return; when `false`, all matching data
@@ -86,12 +198,43 @@ export type AqQuery = {
    */
   limit?: number | false;
 
+  /**
+   * The number of matching records to skip before returning results; only
+   * used in conjunction with {@link AqQuery.limit|limit}.
+   */
+  offset?: number;
+
+  /**
+   * Enables keyset pagination. Tie-breaking sorts are added to make the result
+   * order stable; `true` requests the first page, and a token created by
+   * {@link encodeCursor} from the last row of a page requests the page that follows it.
+   */
+  cursor?: true | string;
+
+  /**
+   * The value types of the query's document properties, usually created by
+   * {@link inferTypes}. Properties that refer to the documents get their `type`
+   * filled in from it, and type mismatches throw a TypeError when the query is
+   * built.
+   */
+  types?: AqTypeMap;
+
+  /**
+   * Cursor options passed to ArangoDB when the query is run with
+   * {@link AqBuilder.run} and friends; they have no effect on the generated AQL.
+   */
+  options?: AqQueryOptions;
+
   /**
    * A list of {@link AqProperty} definitions, property names, or property
    * name/path pairs, to be returned in the results. `return` and `remove`
    * clauses cannot be present in the same query.
    */
-  return?: (AqPropertyName | AqPropertyNameAndPath | AqProperty)[];
+  return?: (
+    | AqPath<TDoc>
+    | AqPropertyNameAndPath<TDoc>
+    | AqDocumentProperty<TDoc>
+  )[];
 
   /**
    * A `remove` clause to delete a given document. `return` and `remove` clauses
@@ -109,6 +252,40 @@ export type AqQuery = {
    *   `collection` value of the AqRemoveClause will be used to determine the target collection.
    */
   remove?: true | (string | ArangoCollection | AqRemove | AqRemove)[];
+
+  /**
+   * An `insert` clause that copies each matching document (or a new document
+   * built from the {@link AqPatch} properties and values) into another collection.
+   * `return` and modification clauses cannot be present in the same query.
+   *
+   * - string | ArangoCollection
+   *   Each matching document will be inserted, unaltered, into the named collection.
+   * - AqInsert
+   *   A new document will be built from the clause's properties and values, and
+   *   inserted into the clause's collection.
+   */
+  insert?: string | ArangoCollection | AqInsert;
+
+  /**
+   * An `update` clause that patches each matching document with the {@link AqPatch}
+   * properties and values. `return` and modification clauses cannot be present in
+   * the same query.
+   */
+  update?: AqUpdate;
+
+  /**
+   * A `replace` clause that replaces each matching document with a new document
+   * built from the {@link AqPatch} properties and values. `return` and modification
+   * clauses cannot be present in the same query.
+   */
+  replace?: AqUpdate;
+
+  /**
+   * An `upsert` clause that looks for a document matching one {@link AqPatch},
+   * then updates it or inserts a new document. `return` and modification clauses
+   * cannot be present in the same query.
+   */
+  upsert?: AqUpsert;
 };
 
 /**
@@ -116,13 +293,125 @@ export type AqQuery = {
  * `name` property is set, it will be rendered as a `LET` assignment in
  * the final AQL.
  */
-export type AqSubquery = Partial<Omit<AqProperty, 'path'>> & {
+export type AqSubquery = Partial<Omit<AqProperty, 'path' | 'function'>> & {
+  function?: AqlFunction;
   query: AqQuery;
 };
 
+/**
+ * The `INTO` clause of a collect or aggregate query. Without `properties` or
+ * `keep`, each group holds every variable in scope for each of its documents.
+ *
+ * @example
+ * ```
+ * const into: AqInto = { name: 'urls', properties: ['url'] }
+ * // AQL output: INTO urls = item.url
+ * ```
+ */
+export type AqInto<T = AqPropertyName | AqPropertyNameAndPath | AqProperty> = {
+  /**
+   * The name of the variable that holds the groups.
+   */
+  name: string;
+
+  /**
+   * The properties of each document to store in the group. A single property
+   * is stored as-is; several are stored as an object.
+   */
+  properties?: T[];
+
+  /**
+   * The names of the variables to store in the group; can't be used with
+   * `properties`.
+   */
+  keep?: string[];
+};
+
+/**
+ * A `WINDOW` operation that adds aggregate values, calculated over a range of
+ * neighboring rows, to each row of the results.
+ *
+ * Without a {@link AqWindow.range|range} property, the `preceding` and
+ * `following` bounds count rows. With one, they're offsets from the range
+ * property's value: numbers, or ISO 8601 durations like `P7D` when the
+ * property holds dates.
+ *
+ * @example A seven-day moving average
+ * ```
+ * const w: AqWindow = {
+ *   range: 'crawled',
+ *   preceding: 'P7D',
+ *   aggregates: [{ name: 'weekly', path: 'size', function: 'avg', type: 'number' }],
+ * }
+ * // AQL output:
+ * // SORT item.crawled ASC
+ * // WINDOW item.crawled WITH { preceding: @value0 }
+ * // AGGREGATE weekly = AVG(item.size)
+ * ```
+ */
+export type AqWindow<TDoc = unknown> = {
+  /**
+   * The aggregate values to add to each row.
+   */
+  aggregates: AqDocumentProperty<TDoc, AqAggregate>[];
+
+  /**
+   * How far the window extends before the current row; `unbounded` includes
+   * every earlier row.
+   *
+   * @defaultValue `0`
+   */
+  preceding?: number | string;
+
+  /**
+   * How far the window extends after the current row; `unbounded` includes
+   * every later row.
+   *
+   * @defaultValue `0`
+   */
+  following?: number | string;
+
+  /**
+   * The property whose values define the window's range, instead of a row count.
+   */
+  range?: AqPath<TDoc> | AqDocumentProperty<TDoc>;
+
+  /**
+   * The property that determines the order of rows in the window. Shorthand
+   * property names are sorted in ascending order; it defaults to the
+   * {@link AqWindow.range|range} property, if there is one.
+   */
+  sort?: AqPath<TDoc> | AqDocumentProperty<TDoc, AqSort>;
+};
+
+/**
+ * The value of a {@link AqQuery.lets|LET} variable: a property of the
+ * document (optionally with a function applied), an {@link AqExpression}, or
+ * a literal value passed in as a bind parameter.
+ *
+ * @example
+ * ```
+ * const lets: Record<string, AqLet> = {
+ *   domain: { path: 'url.domain', function: 'lower' },
+ *   size: { expression: { add: ['body.length', 'headers.length'] } },
+ *   cutoff: { value: '2024-01-01' },
+ * }
+ * // AQL output:
+ * // LET domain = LOWER(item.url.domain)
+ * // LET size = (item.body.length + item.headers.length)
+ * // LET cutoff = @value0
+ * ```
+ */
+export type AqLet = AqProperty | { value: AnyJson };
+
 export type AqPropertyName = string;
 
-export type AqPropertyNameAndPath = [name: string, path: string];
+export type AqFilterShorthand<TDoc = unknown> =
+  | AqPath<TDoc>
+  | AqPropertyNameAndPath<TDoc>
+  | AqDocumentFilter<TDoc>;
+
+export type AqPropertyNameAndPath<TDoc = unknown> = [name: string, path: AqPath<TDoc>];
 
 /**
  * When building a REMOVE query, explicitly specifies the target collection
@@ -136,6 +425,208 @@ type AqRemovePointer = {
   value: string
 }
 
+/**
+ * A document to be written by a modification clause. Each {@link AqProperty}
+ * becomes an attribute whose value is read from the query; each entry in
+ * `values` becomes an attribute whose value is passed as a bind parameter.
+ *
+ * @example
+ * ```
+ * const patch: AqPatch = {
+ *   properties: [['title', 'metadata.title']],
+ *   values: { archived: true }
+ * }
+ * // AQL output: { title: item.metadata.title, archived: @value0 }
+ * ```
+ */
+export type AqPatch<T = AqPropertyName | AqPropertyNameAndPath | AqProperty> = {
+  properties?: T[];
+  values?: Record<string, AnyJson>;
+};
+
+/**
+ * When building an INSERT query, specifies the target collection and the
+ * document to be inserted.
+ */
+export type AqInsert<T = AqPropertyName | AqPropertyNameAndPath | AqProperty> = AqPatch<T> & {
+  collection: string | ArangoCollection;
+
+  /**
+   * Return the newly inserted document.
+   */
+  returning?: 'new';
+};
+
+/**
+ * When building an UPDATE or REPLACE query, specifies the target collection,
+ * the key of the document to be changed, and the new values.
+ */
+export type AqUpdate<T = AqPropertyName | AqPropertyNameAndPath | AqProperty> = AqPatch<T> & {
+  /**
+   * The collection to modify; defaults to the query's collection.
+   */
+  collection?: string | ArangoCollection;
+
+  /**
+   * The property of the current document that holds the key of the document
+   * to be changed.
+   *
+   * @defaultValue `_key`
+   */
+  property?: string;
+
+  /**
+   * A literal key of the document to be changed; takes precedence over `property`.
+   */
+  value?: string;
+
+  /**
+   * Return the document as it was before (`old`) or after (`new`) the change.
+   */
+  returning?: 'new' | 'old';
+};
+
+/**
+ * When building an UPSERT query, specifies the search document used to find
+ * an existing record, and the documents to insert or update.
+ */
+export type AqUpsert<T = AqPropertyName | AqPropertyNameAndPath | AqProperty> = {
+  /**
+   * The collection to modify; defaults to the query's collection.
+   */
+  collection?: string | ArangoCollection;
+
+  /**
+   * The document used to find an existing record.
+   */
+  match: AqPatch<T>;
+
+  /**
+   * The document to insert when no record matches.
+   */
+  insert: AqPatch<T>;
+
+  /**
+   * The document used to patch a matching record; defaults to the `insert` document.
+   */
+  update?: AqPatch<T>;
+
+  /**
+   * Replace matching records instead of patching them.
+   */
+  replace?: true;
+
+  /**
+   * Return the document as it was before (`old`) or after (`new`) the change.
+   */
+  returning?: 'new' | 'old';
+};
+
+/**
+ * Joins the documents of another collection to the query's documents. Keys of
+ * `on` are paths in the joined document; values are paths in the query's
+ * document, or properties of another variable. Inner joins add a nested `FOR`
+ * loop, and skip documents without a match; left joins add a `LET` with the
+ * first match, or null if there isn't one.
+ *
+ * @example
+ * ```
+ * const j: AqJoin = { collection: 'pages', document: 'page', on: { url: 'url' }, mode: 'left' }
+ * // AQL output:
+ * // LET page = FIRST(
+ * //   FOR page_match IN pages
+ * //   FILTER page_match.url == item.url
+ * //   RETURN page_match
+ * // )
+ * ```
+ */
+export type AqJoin = {
+  collection: string | ArangoCollection;
+  document: string;
+  on: Record<string, string | AqProperty>;
+
+  /**
+   * @defaultValue `inner`
+   */
+  mode?: 'inner' | 'left';
+};
+
+/**
+ * Describes a graph traversal, rendered as `FOR v, e, p IN min..max DIRECTION start`.
+ *
+ * @example Pages linked from a given page, up to three hops away
+ * ```
+ * const t: AqTraversal = {
+ *   start: 'pages/home',
+ *   direction: 'outbound',
+ *   edges: ['links_to'],
+ *   max: 3,
+ *   edge: 'link',
+ * }
+ * // AQL output: FOR item, link IN @value0..@value1 OUTBOUND @value2 links_to
+ * ```
+ */
+export type AqTraversal = {
+  /**
+   * The `_id` of the vertex the traversal starts from, or a reference to another
+   * variable in the query if {@link AqTraversal.value|value} is `dynamic`.
+   */
+  start: string;
+
+  /**
+   * Indicates whether the start vertex is a literal ID or a reference to another
+   * variable in the query.
+   */
+  value?: 'literal' | 'dynamic';
+
+  /**
+   * The direction in which edges are followed.
+   */
+  direction: TraversalDirection;
+
+  /**
+   * The minimum traversal depth.
+   *
+   * @defaultValue `1`
+   */
+  min?: number;
+
+  /**
+   * The maximum traversal depth.
+   *
+   * @defaultValue The value of {@link AqTraversal.min|min}
+   */
+  max?: number;
+
+  /**
+   * The variable name used for visited vertices; when it's not set, the query's
+   * {@link AqQuery.document|document} value is used.
+   */
+  vertex?: string;
+
+  /**
+   * The variable name used for the edge leading to each visited vertex.
+   */
+  edge?: string;
+
+  /**
+   * The variable name used for the full path leading to each visited vertex.
+   */
+  path?: string;
+} & RequireExactlyOne<AqTraversalSource, 'edges' | 'graph'>;
+type AqTraversalSource = {
+  edges: (string | ArangoCollection)[];
+  graph: string | Graph;
+};
+
+export type TraversalDirection = keyof typeof traversalDirectionMap;
+
+export const traversalDirectionMap = {
+  outbound: 'OUTBOUND',
+  inbound: 'INBOUND',
+  any: 'ANY',
+};
+
 /**
  * A strict version of AqQuery that requires an explicit {@link AqQuery.document|document}
  * value, and doesn't support shorthand property syntax for filters,
@@ -143,48 +634,179 @@ type AqRemovePointer = {
  */
 export type AqStrict = Omit<
   AqQuery,
-  'document' | 'count' | 'filters' | 'aggregates' | 'sorts' | 'return' | 'remove'
+  | 'document'
+  | 'count'
+  | 'lets'
+  | 'preFilters'
+  | 'filters'
+  | 'postFilters'
+  | 'aggregates'
+  | 'into'
+  | 'windows'
+  | 'sorts'
+  | 'return'
+  | AqModification
 > & {
   document: string;
   count: string | false;
-  filters?: AqFilter[];
+  lets?: Record<string, AqLet>;
+  preFilters?: (AqFilter | AqFilterGroup)[];
+  filters?: (AqFilter | AqFilterGroup)[];
+  postFilters?: (AqFilter | AqFilterGroup)[];
   aggregates?: AqAggregate[];
+  into?: AqInto<AqProperty>;
+  windows?: AqStrictWindow[];
   sorts?: AqSort[] | null;
-} & ({ return?: AqProperty[], remove: never } | { remove?: AqRemove[], return: never })
+} & (
+  | ({ return?: AqProperty[] } & Partial<Record<AqModification, never>>)
+  | ({ return?: never } & AqStrictModifications)
+);
+
+/**
+ * An {@link AqWindow} whose range and sort properties have been expanded.
+ */
+export type AqStrictWindow = Omit<AqWindow, 'range' | 'sort'> & {
+  aggregates: AqAggregate[];
+  range?: AqProperty;
+  sort?: AqSort;
+};
+
+type AqStrictModifications = {
+  remove?: AqRemove[];
+  insert?: AqInsert<AqProperty>;
+  update?: AqUpdate<AqProperty> & { collection: string | ArangoCollection };
+  replace?: AqUpdate<AqProperty> & { collection: string | ArangoCollection };
+  upsert?: AqUpsert<AqProperty> & { collection: string | ArangoCollection };
+};
+
+/**
+ * The names of the AqQuery clauses that modify documents rather than returning them.
+ */
+export type AqModification = 'remove' | 'insert' | 'update' | 'replace' | 'upsert';
+
+export const modificationClauses: AqModification[] = [
+  'remove',
+  'insert',
+  'update',
+  'replace',
+  'upsert',
+];
 
 export interface AqlExpansionOptions {
   document?: string;
+
+  /**
+   * The document variable of the query a subquery is nested in; it's the
+   * default target of the subquery's {@link AqQuery.correlate|correlations}.
+   */
   parentDocument?: string;
+
+  /**
+   * The variables defined by enclosing queries. A subquery whose document
+   * variable would shadow one of them uses a numbered name instead.
+   */
+  scope?: string[];
+
+  /**
+   * The names of the collections and views the query is allowed to use. If
+   * it's set, a query (or subquery) that reads from or writes to any other
+   * collection throws a TypeError.
+   */
+  collections?: string[];
   count?: string;
   inline?: true;
 }
 export function expandAqShorthand(
   input: AqQuery,
+  options?: AqlExpansionOptions,
+): AqStrict;
+export function expandAqShorthand<TDoc>(
+  input: AqQuery<TDoc>,
+  options?: AqlExpansionOptions,
+): AqStrict;
+export function expandAqShorthand(
+  spec: AqQuery,
   options: AqlExpansionOptions = {},
-) {
-  input = { ...options, ...input };
-  input.document ??= 'item';
+): AqStrict {
+  const { parentDocument, scope = [], collections, ...defaults } = options;
+  const input = { ...defaults, ...spec };
+  input.document ??= input.traversal?.vertex ?? 'item';
+  if (scope.includes(input.document)) {
+    let n = 1;
+    while (scope.includes(`${input.document}_${n}`)) n++;
+    input.document = `${input.document}_${n}`;
+  }
+  if (input.traversal) {
+    input.traversal = { ...input.traversal, vertex: input.document };
+  } else if (input.collection === undefined && input.view === undefined) {
+    if (!input.subqueries?.length && input.lets === undefined) {
+      throw new TypeError('Queries require a collection, a traversal, or a view');
+    }
+    if (!input.return?.length) {
+      throw new TypeError('Queries without a collection, traversal or view require return values');
+    }
+  }
+  for (const name of [input.document, input.traversal?.edge, input.traversal?.path]) {
+    if (name !== undefined) renderVariable(name);
+  }
+
+  if (input.correlate && parentDocument === undefined) {
+    throw new TypeError('Correlations can only be used in subqueries');
+  }
+  for (const [path, other] of Object.entries(input.correlate ?? {})) {
+    const variable =
+      typeof other === 'string' ? parentDocument : other.document ?? parentDocument;
+    if (typeof variable === 'string' && !scope.includes(variable)) {
+      throw new TypeError(
+        `Correlation '${path}' refers to '${variable}', which no enclosing query defines`,
+      );
+    }
+  }
+
+  for (const j of input.joins ?? []) {
+    renderVariable(j.document);
+    if (j.document === input.document) {
+      throw new TypeError(`Joined documents can't reuse the '${j.document}' variable`);
+    }
+    if (Object.keys(j.on).length === 0) {
+      throw new TypeError('Joins require at least one join condition');
+    }
+  }
+
+  if (input.search?.length && input.view === undefined) {
+    throw new TypeError('Search conditions can only be used when querying a view');
+  }
   if (input.count === undefined) {
     input.count = 'total';
+  } else if (input.count !== false) {
+    renderVariable(input.count);
+  }
+
+  if (input.preFilters) {
+    input.preFilters = input.preFilters.map(expandFilter);
   }
 
   if (input.filters) {
-    for (let i = 0; i < input.filters.length; i++) {
-      const val = input.filters[i];
-      if (typeof val === 'string') {
-        input.filters[i] = {
-          path: val,
-          eq: null,
-          negate: true,
-        } as AqFilter;
-      } else if (Array.isArray(val)) {
-        input.filters[i] = {
-          name: val[0],
-          path: val[1],
-          eq: null,
-          negate: true,
-        } as AqFilter;
-      }
+    input.filters = input.filters.map(expandFilter);
+  }
+
+  if (input.postFilters) {
+    input.postFilters = input.postFilters.map(expandFilter);
+  }
+
+  // Before postFilters existed, filters that didn't refer to the document
+  // were applied after aggregation. They still are, unless they refer to a
+  // variable that's defined before the COLLECT statement.
+  if (input.aggregates?.length && input.filters) {
+    const strict = input as AqStrict;
+    const defined = new Set([
+      ...Object.keys(input.lets ?? {}),
+      ...(input.subqueries ?? []).map(q => (isAqSubquery(q) ? q.name : undefined)),
+    ]);
+    const moved = strict.filters?.filter(f => isPostCollectFilter(f, defined)) ?? [];
+    if (moved.length) {
+      strict.filters = strict.filters?.filter(f => !moved.includes(f));
+      strict.postFilters = [...(strict.postFilters ?? []), ...moved];
     }
   }
 
@@ -216,31 +838,270 @@ export function expandAqShorthand(
   }
 
   if (input.return) {
-    for (let i = 0; i < input.return.length; i++) {
-      const val = input.return[i];
-      if (typeof val === 'string') {
-        input.return[i] = { path: val } as AqProperty;
-      } else if (Array.isArray(val)) {
-        input.return[i] = { name: val[0], path: val[1] } as AqProperty;
-      }
+    input.return = input.return.map(expandProperty);
+  }
+
+  // Expressions have no path to fall back on, so their labels must be given.
+  for (const p of [...(input.return ?? []), ...(input.aggregates ?? [])]) {
+    if (typeof p === 'object' && 'expression' in p && p.name === undefined) {
+      throw new TypeError('Returned and collected expressions require a name');
+    }
+  }
+
+  if (input.into !== undefined) {
+    const into = typeof input.into === 'string' ? { name: input.into } : input.into;
+    if (!input.aggregates?.length) {
+      throw new TypeError('Into clauses require collect or aggregate properties');
+    }
+    for (const name of [into.name, ...(into.keep ?? [])]) {
+      renderVariable(name);
+    }
+    if (into.properties?.length && into.keep?.length) {
+      throw new TypeError('Into clauses can use properties or keep, but not both');
     }
+    input.into = { ...into, properties: into.properties?.map(expandProperty) };
+
+    // Returned properties can refer to the groups by name.
+    const strict = input as AqStrict;
+    strict.return = strict.return?.map(p => detach(p, new Set([into.name])));
+  }
+
+  if (input.windows) {
+    const windows = input.windows.map(expandWindow);
+    input.windows = windows;
+
+    // Sorts can refer to the values added by windows by name.
+    const labels = new Set(
+      windows.flatMap(w => w.aggregates.map(p => p.name ?? p.path ?? '')),
+    );
+    input.sorts = input.sorts && (input.sorts as AqSort[]).map(p => detach(p, labels));
+  }
+
+  if (input.lets) {
+    input.lets = Object.fromEntries(
+      Object.entries(input.lets).map(([name, value]) => {
+        renderVariable(name);
+        return [name, typeof value === 'string' ? { path: value } : value];
+      }),
+    );
+
+    // Properties that start with a LET variable's name refer to the variable,
+    // rather than to a property of the document.
+    const names = new Set(Object.keys(input.lets));
+    const strict = input as AqStrict;
+    strict.filters = strict.filters?.map(f => detachFilter(f, names));
+    strict.postFilters = strict.postFilters?.map(f => detachFilter(f, names));
+    strict.aggregates = strict.aggregates?.map(p => detach(p, names));
+    strict.windows = strict.windows?.map(w => ({
+      ...w,
+      aggregates: w.aggregates.map(p => detach(p, names)),
+      range: w.range && detach(w.range, names),
+      sort: w.sort && detach(w.sort, names),
+    }));
+    strict.sorts = strict.sorts && strict.sorts.map(p => detach(p, names));
+    strict.return = strict.return?.map(p => detach(p, names));
   }
 
   if (input.remove === true) {
+    if (input.collection === undefined) {
+      throw new TypeError('Queries without a collection require an explicit remove collection');
+    }
     input.remove = [{
       collection: input.collection,
       property: '_key'
     }];
   } else if (input.remove) {
     input.remove = input.remove.map(ir => {
-      if (typeof ir === 'string' || isArangoCollection(ir)) return ir;
-      else return ir;
+      if (typeof ir === 'string' || isArangoCollection(ir)) {
+        return { collection: ir, property: '_key' };
+      } else return ir;
     })
   }
 
-  if (input.remove && input.return) {
-    throw new TypeError('Return and remove clauses are mutually exclusive');
+  if (typeof input.insert === 'string' || isArangoCollection(input.insert)) {
+    input.insert = { collection: input.insert };
+  } else if (input.insert) {
+    input.insert = { ...input.insert, ...expandPatch(input.insert) };
+  }
+
+  if (input.update) {
+    input.update = expandUpdate(input.update, input.collection, 'update');
+  }
+
+  if (input.replace) {
+    input.replace = expandUpdate(input.replace, input.collection, 'replace');
   }
 
+  if (input.upsert) {
+    input.upsert = {
+      ...input.upsert,
+      collection: modificationTarget(input.upsert, input.collection, 'upsert'),
+      match: expandPatch(input.upsert.match),
+      insert: expandPatch(input.upsert.insert),
+      update: input.upsert.update ? expandPatch(input.upsert.update) : undefined,
+    };
+  }
+
+  const modifications = modificationClauses.filter(m => input[m] !== undefined);
+  if (modifications.length && input.return) {
+    throw new TypeError(`Return and ${modifications[0]} clauses are mutually exclusive`);
+  }
+
+  const returning = modificationClauses.filter(m => {
+    const mod = input[m];
+    return mod && typeof mod === 'object' && 'returning' in mod && mod.returning;
+  });
+  if (returning.length > 1) {
+    throw new TypeError('Only one modification clause can return NEW or OLD');
+  }
+
+  if (collections) checkCollections(input as AqStrict, collections);
+  if (input.types) Object.assign(input, applyTypes(input as AqStrict, input.types));
+
   return input as AqStrict;
 }
+
+function checkCollections(spec: AqStrict, allowed: string[]) {
+  const used = [
+    spec.collection,
+    spec.view,
+    ...(spec.traversal?.edges ?? []),
+    ...(spec.joins ?? []).map(j => j.collection),
+    ...(spec.remove ?? []).map(r => r.collection),
+    spec.insert?.collection,
+    spec.update?.collection,
+    spec.replace?.collection,
+    spec.upsert?.collection,
+  ];
+  for (const collection of used) {
+    if (collection === undefined) continue;
+    const name = typeof collection === 'string' ? collection : collection.name;
+    if (!allowed.includes(name)) {
+      throw new TypeError(`Collection '${name}' is not in the list of allowed collections`);
+    }
+  }
+}
+
+function expandFilter(
+  val: AqFilterShorthand | AqFilterGroup<AqFilterShorthand>,
+): AqFilter | AqFilterGroup {
+  if (typeof val === 'string') {
+    return { path: val, eq: null, negate: true };
+  } else if (Array.isArray(val)) {
+    return { name: val[0], path: val[1], eq: null, negate: true };
+  } else if ('or' in val) {
+    return { or: val.or.map(expandFilter) };
+  } else if ('and' in val) {
+    return { and: val.and.map(expandFilter) };
+  } else if ('not' in val) {
+    return { not: expandFilter(val.not) };
+  }
+  return val;
+}
+
+function isPostCollectFilter(
+  val: AqFilter | AqFilterGroup,
+  defined: Set<string | undefined>,
+): boolean {
+  if ('or' in val) return val.or.length > 0 && val.or.every(f => isPostCollectFilter(f, defined));
+  if ('and' in val) return val.and.length > 0 && val.and.every(f => isPostCollectFilter(f, defined));
+  if ('not' in val) return isPostCollectFilter(val.not, defined);
+  const root = (val.path ?? val.name ?? '').split(/[.[]/)[0];
+  return val.document === false && !defined.has(root);
+}
+
+/**
+ * Marks properties without an explicit document that start with the name of
+ * one of the query's LET variables as references to that variable.
+ */
+function detach<T extends AqProperty>(p: T, names: Set<string>): T {
+  if (p.expression) return p;
+  const root = (p.path ?? p.name ?? '').split(/[.[]/)[0];
+  return p.document === undefined && names.has(root) ? { ...p, document: false } : p;
+}
+
+function detachFilter(
+  val: AqFilter | AqFilterGroup,
+  names: Set<string>,
+): AqFilter | AqFilterGroup {
+  if ('or' in val) {
+    return { or: val.or.map(f => detachFilter(f, names)) };
+  } else if ('and' in val) {
+    return { and: val.and.map(f => detachFilter(f, names)) };
+  } else if ('not' in val) {
+    return { not: detachFilter(val.not, names) };
+  }
+  return detach(val, names);
+}
+
+/**
+ * Expands a property name, or a property name/path pair, into an {@link AqProperty}.
+ */
+export function expandProperty(
+  val: AqPropertyName | AqPropertyNameAndPath | AqProperty,
+): AqProperty {
+  if (typeof val === 'string') {
+    return { path: val };
+  } else if (Array.isArray(val)) {
+    return { name: val[0], path: val[1] };
+  }
+  return val;
+}
+
+/**
+ * Expands the shorthand range and sort properties of an {@link AqWindow}, and
+ * checks that its aggregates and bounds can be used in a `WINDOW` operation.
+ */
+export function expandWindow(window: AqWindow): AqStrictWindow {
+  for (const a of window.aggregates) {
+    const func = aggregateFunction(a);
+    if (func === 'collect' || func === 'distinct') {
+      throw new TypeError(`Function '${func}' can't be used in a window`);
+    }
+  }
+  if (window.range === undefined) {
+    for (const bound of [window.preceding, window.following]) {
+      if (typeof bound === 'string' && bound !== 'unbounded') {
+        throw new TypeError(`Window bound '${bound}' requires a range property`);
+      }
+    }
+  }
+
+  const range = window.range === undefined ? undefined : expandProperty(window.range);
+  const sort =
+    typeof window.sort === 'string'
+      ? { path: window.sort, direction: 'asc' as const }
+      : window.sort ?? (range && { ...range, direction: 'asc' as const });
+  return { ...window, range, sort };
+}
+
+function expandUpdate(
+  update: AqUpdate,
+  collection: string | ArangoCollection | undefined,
+  clause: AqModification,
+): AqUpdate<AqProperty> {
+  return {
+    ...update,
+    properties: update.properties?.map(expandProperty),
+    collection: modificationTarget(update, collection, clause),
+  };
+}
+
+function modificationTarget(
+  mod: { collection?: string | ArangoCollection },
+  collection: string | ArangoCollection | undefined,
+  clause: AqModification,
+) {
+  const target = mod.collection ?? collection;
+  if (target === undefined) {
+    throw new TypeError(`Queries without a collection require an explicit ${clause} collection`);
+  }
+  return target;
+}
+
+function expandPatch(patch: AqPatch): AqPatch<AqProperty> {
+  return {
+    ...patch,
+    properties: patch.properties?.map(expandProperty),
+  };
+}
@@ -0,0 +1,123 @@
+import { AqlAggregateFunction } from './property.js';
+
+/**
+ * The type-level record of the result fields an {@link AqBuilder} has added
+ * to its query, used to infer the shape of each result row.
+ */
+export type AqResultShape = {
+  fields: object;
+  grouped: boolean;
+  count: string | false;
+  keyset: boolean;
+};
+
+/**
+ * The result shape of a query that hasn't added any return values.
+ */
+export type AqEmptyResult = {
+  fields: Record<never, never>;
+  grouped: false;
+  count: 'total';
+  keyset: false;
+};
+
+/**
+ * The type of each row returned by a query on documents of type `TDoc`, given
+ * the fields it returns. Queries without explicit return values return the
+ * documents themselves; queries returning a single value return it directly,
+ * rather than wrapped in an object. Queries paged with a keyset cursor always
+ * return objects, with the document's `_key` alongside any returned values,
+ * so the next cursor can be read from their rows.
+ *
+ * If the document type is unknown, so is the type of the rows: `unknown`.
+ */
+export type AqRow<TDoc, TShape extends AqResultShape> = unknown extends TDoc
+  ? unknown
+  : AqColumns<TShape> extends infer C
+  ? [keyof C] extends [never]
+    ? TDoc
+    : TShape['keyset'] extends true
+    ? TShape['grouped'] extends true
+      ? C
+      : Flatten<C & { _key: string }>
+    : IsUnion<keyof C> extends true
+    ? C
+    : C[keyof C]
+  : never;
+
+/**
+ * The label a property is returned under: {@link sanitizeName} at the type level.
+ */
+export type AqLabel<S extends string> = S extends `${infer C}${infer Rest}`
+  ? `${C extends '.' | '[' | ']' | '-' | '@' | ' ' ? '_' : C}${AqLabel<Rest>}`
+  : S;
+
+/**
+ * The type of an aggregate value, given the function used to produce it and
+ * the type of the values being aggregated.
+ */
+export type AqAggregateValue<
+  F extends AqlAggregateFunction,
+  V,
+> = F extends 'collect'
+  ? V
+  : F extends 'unique' | 'sorted_unique' | 'distinct'
+  ? V[]
+  : number;
+
+/**
+ * Adds a field to a result shape; if `grouped` is true, the query's results
+ * are now aggregated.
+ */
+export type AqWithField<
+  TShape extends AqResultShape,
+  L extends string,
+  V,
+  G extends boolean = TShape['grouped'],
+> = {
+  fields: Flatten<TShape['fields'] & { [K in L]: V }>;
+  grouped: G;
+  count: TShape['count'];
+  keyset: TShape['keyset'];
+};
+
+/**
+ * Changes the label of the record count in a result shape.
+ */
+export type AqWithCount<
+  TShape extends AqResultShape,
+  L extends string | false,
+> = {
+  fields: TShape['fields'];
+  grouped: TShape['grouped'];
+  count: L;
+  keyset: TShape['keyset'];
+};
+
+/**
+ * Marks a result shape as paged with a keyset cursor.
+ */
+export type AqWithKeyset<TShape extends AqResultShape> = {
+  fields: TShape['fields'];
+  grouped: TShape['grouped'];
+  count: TShape['count'];
+  keyset: true;
+};
+
+/**
+ * The fields of each result row, including the record count of aggregated queries.
+ */
+export type AqColumns<TShape extends AqResultShape> =
+  TShape['grouped'] extends true
+    ? TShape['count'] extends string
+      ? Flatten<TShape['fields'] & { [K in TShape['count']]: number }>
+      : TShape['fields']
+    : TShape['fields'];
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+type IsUnion<T, U = T> = T extends unknown
+  ? [U] extends [T]
+    ? false
+    : true
+  : never;
@@ -0,0 +1,200 @@
+import { AnyJson, JsonMap } from '@salesforce/ts-types';
+import {
+  AqAggregate,
+  AqFilter,
+  AqFilterGroup,
+  AqProperty,
+  AqSort,
+} from './property.js';
+import { AqLet, AqStrict } from './query.js';
+import {
+  isAqFilterGroup,
+  isSupportedFunction,
+} from './type-guards.js';
+
+/**
+ * The value types an {@link AqProperty} can declare.
+ */
+export type AqValueType = NonNullable<AqProperty['type']>;
+
+/**
+ * The value type of each known property path of a document.
+ *
+ * @example
+ * ```
+ * const types: AqTypeMap = { status: 'number', url: 'object', 'url.domain': 'string' };
+ * ```
+ */
+export type AqTypeMap = Record<string, AqValueType>;
+
+/**
+ * The parts of a JSON Schema that {@link inferTypes} reads.
+ */
+export interface AqJsonSchema {
+  type?: string | string[];
+  properties?: Record<string, AqJsonSchema>;
+}
+
+/**
+ * Builds a type map from sample documents, or from a JSON Schema describing
+ * them. Nested objects are described property by property; arrays aren't
+ * looked into. Null values are ignored, and paths whose samples have more than
+ * one type are left out, since no single type describes them.
+ *
+ * @example
+ * ```
+ * inferTypes([{ status: 200, url: { domain: 'example.com' } }]);
+ * // { status: 'number', url: 'object', 'url.domain': 'string' }
+ * ```
+ */
+export function inferTypes(source: JsonMap[] | AqJsonSchema): AqTypeMap {
+  const seen = new Map<string, Set<AqValueType>>();
+  const add = (path: string, type: AqValueType) => {
+    seen.set(path, (seen.get(path) ?? new Set()).add(type));
+  };
+
+  if (Array.isArray(source)) {
+    for (const sample of source) addSample(sample, '', add);
+  } else {
+    addSchema(source, '', add);
+  }
+
+  const types: AqTypeMap = {};
+  for (const [path, found] of seen) {
+    if (found.size === 1) types[path] = [...found][0];
+  }
+  return types;
+}
+
+function addSample(
+  sample: JsonMap,
+  prefix: string,
+  add: (path: string, type: AqValueType) => void,
+) {
+  for (const [key, value] of Object.entries(sample)) {
+    const type = valueType(value);
+    if (type === undefined) continue;
+    add(prefix + key, type);
+    if (type === 'object') addSample(value as JsonMap, `${prefix}${key}.`, add);
+  }
+}
+
+function addSchema(
+  schema: AqJsonSchema,
+  prefix: string,
+  add: (path: string, type: AqValueType) => void,
+) {
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const types = [property.type ?? []]
+      .flat()
+      .filter(t => t !== 'null')
+      .map(t => (t === 'integer' ? 'number' : t));
+    const type = types[0];
+    if (types.length === 1 && isValueType(type)) {
+      add(prefix + key, type);
+    }
+    if (property.properties) addSchema(property, `${prefix}${key}.`, add);
+  }
+}
+
+function valueType(value: AnyJson | undefined): AqValueType | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return isValueType(type) ? type : undefined;
+}
+
+function isValueType(type: string): type is AqValueType {
+  return ['string', 'number', 'boolean', 'object', 'array'].includes(type);
+}
+
+/**
+ * Fills in the `type` of the properties in a query that refer to its
+ * documents, using a type map. Properties of other variables, and those that
+ * refer to collected values after aggregation, are left alone.
+ *
+ * Throws a TypeError if a property declares a different type than the map
+ * does, if a function can't be used with a property's type, or if a filter
+ * compares a property to a value of another type.
+ */
+export function applyTypes(spec: AqStrict, types: AqTypeMap): Partial<AqStrict> {
+  const aggregated = !!spec.aggregates?.length;
+  const typed = <T extends AqProperty>(p: T, aggregate = false): T => {
+    if (p.expression || (p.document !== undefined && p.document !== spec.document)) {
+      return p;
+    }
+    const path = p.path ?? p.name ?? '';
+    const type = types[path];
+    if (type === undefined) return p;
+    if (p.type !== undefined && p.type !== type) {
+      throw new TypeError(`Property '${path}' is declared as ${p.type}, but holds ${type} values`);
+    }
+    checkFunctions(p, type, aggregate);
+    return { ...p, type };
+  };
+  const typedFilter = (f: AqFilter | AqFilterGroup): AqFilter | AqFilterGroup => {
+    if (isAqFilterGroup(f)) {
+      if ('or' in f) return { or: f.or.map(typedFilter) };
+      if ('and' in f) return { and: f.and.map(typedFilter) };
+      return { not: typedFilter(f.not) };
+    }
+    const t = typed(f);
+    if (t.type !== undefined) checkFilterValues(t, t.type);
+    return t;
+  };
+  const typedLet = (l: AqLet): AqLet => ('path' in l || 'name' in l ? typed(l) : l);
+
+  const fields: Partial<AqStrict> = {
+    lets: spec.lets && mapValues(spec.lets, typedLet),
+    preFilters: spec.preFilters?.map(typedFilter),
+    filters: spec.filters?.map(typedFilter),
+    aggregates: spec.aggregates?.map(p => typed(p, true)),
+    windows: aggregated ? spec.windows : spec.windows?.map(w => ({
+      ...w,
+      aggregates: w.aggregates.map(p => typed(p, true)),
+      range: w.range && typed(w.range),
+      sort: w.sort && typed(w.sort),
+    })),
+    sorts: aggregated ? spec.sorts : spec.sorts?.map(p => typed<AqSort>(p)),
+    return: aggregated ? spec.return : spec.return?.map(p => typed(p)),
+  } as Partial<AqStrict>;
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined),
+  );
+}
+
+// Numeric aggregates of strings and arrays use their lengths, but there's no
+// number to aggregate for other types.
+function checkFunctions(p: AqProperty | AqAggregate, type: AqValueType, aggregate: boolean) {
+  const chain = p.function === undefined ? [] : [p.function].flat();
+  const names = chain.map(c => (typeof c === 'string' ? c : c.name));
+  if (aggregate) {
+    const func = names.pop();
+    const numeric = ['min', 'max', 'sum', 'avg'];
+    if (!names.length && func && numeric.includes(func) && ['boolean', 'object'].includes(type)) {
+      throw new TypeError(`Function '${func}' can't be used with ${type} values`);
+    }
+  }
+  if (names.length && !isSupportedFunction(names[0], false, type)) {
+    throw new TypeError(`Function '${names[0]}' can't be used with ${type} values`);
+  }
+}
+
+function checkFilterValues(f: AqFilter, type: AqValueType) {
+  if (f.value === 'dynamic' || f.function !== undefined) return;
+  const values = [f.eq, f.lt, f.gt, ...(Array.isArray(f.in) ? f.in : [])];
+  for (const value of values) {
+    const found = valueType(value);
+    if (found !== undefined && found !== type) {
+      throw new TypeError(
+        `Filter on '${f.path ?? f.name}' compares ${type} values to a ${found}`,
+      );
+    }
+  }
+}
+
+function mapValues<T>(record: Record<string, T>, fn: (value: T) => T) {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, fn(value)]),
+  );
+}
@@ -2,9 +2,11 @@ import {
   AqProperty,
   AqAggregate,
   AqFilter,
+  AqFilterGroup,
   AqSort,
   AqlFunction,
   AqlAggregateFunction,
+  AqlScoringFunction,
 } from './property.js';
 import { AqSubquery, AqQuery } from './query.js';
 
@@ -39,14 +41,34 @@ export function isAqFilter(input: unknown): input is AqFilter {
   );
 }
 
+export function isAqFilterGroup<T = AqFilter>(
+  input: unknown,
+): input is AqFilterGroup<T> {
+  return (
+    input !== null &&
+    typeof input === 'object' &&
+    !Array.isArray(input) &&
+    ('or' in input || 'and' in input || 'not' in input)
+  );
+}
+
 // In theory, any property can be used as a sort.
 export function isAqSort(input: unknown): input is AqSort {
   return isAqProperty(input);
 }
 
-// Any object with a 'collection' property is potentially a valid AqQuery.
+// Any object with a 'collection', 'traversal', or 'view' property is potentially a valid AqQuery;
+// so is one with 'subqueries' or 'lets', which can be used without a source.
 export function isAqQuery(input: unknown): input is AqQuery {
-  return input !== null && typeof input === 'object' && 'collection' in input;
+  return (
+    input !== null &&
+    typeof input === 'object' &&
+    ('collection' in input ||
+      'traversal' in input ||
+      'view' in input ||
+      'subqueries' in input ||
+      'lets' in input)
+  );
 }
 
 export function isAqSubquery(input: unknown): input is AqSubquery {
@@ -60,6 +82,15 @@ export function isAqlFunction(input: unknown): input is AqlFunction {
   );
 }
 
+export function isAqlScoringFunction(
+  input: unknown,
+): input is AqlScoringFunction {
+  return (
+    typeof input === 'string' &&
+    (AqlScoringFunctions as readonly string[]).includes(input.toLocaleLowerCase())
+  );
+}
+
 export function isAqlAggregateFunction(
   input: unknown,
 ): input is AqlAggregateFunction {
@@ -71,6 +102,16 @@ export function isAqlAggregateFunction(
   );
 }
 
+/**
+ * The aggregation function an {@link AqAggregate} uses; when its `function`
+ * is a chain of calls, that's the last one.
+ */
+export function aggregateFunction(p: AqAggregate): AqlAggregateFunction {
+  return Array.isArray(p.function)
+    ? (p.function[p.function.length - 1] as AqlAggregateFunction)
+    : p.function;
+}
+
 export function isSupportedFunction(
   input: string | AqProperty | AqAggregate,
   aggregate = false,
@@ -80,7 +121,7 @@ export function isSupportedFunction(
     typeof input === 'string'
       ? { funcName: input, type: valueType }
       : { funcName: input.function, type: input.type };
-  if (funcName === undefined) return false;
+  if (funcName === undefined || Array.isArray(funcName)) return false;
 
   const supportedMap: Record<string, string[] | undefined> = aggregate
     ? SupportedAqlAggregateFunctions
@@ -138,6 +179,8 @@ export const SupportedAqlFunctions = {
   pop: ['array'],
   unique: ['array', 'aggregate'],
   sorted: ['array'],
+  nth: ['array'],
+  slice: ['array'],
   max: ['array', 'aggregate'],
   min: ['array', 'aggregate'],
   avg: ['array', 'aggregate'],
@@ -167,6 +210,10 @@ export const SupportedAqlFunctions = {
   date_quarter: ['number', 'string'],
   date_days_in_month: ['number', 'string'],
   date_trunc: ['number', 'string'],
+  date_format: ['number', 'string'],
+  date_add: ['number', 'string'],
+  date_subtract: ['number', 'string'],
+  date_diff: ['number', 'string'],
 
   // Numbers
   abs: ['number'],
@@ -208,6 +255,12 @@ export const SupportedAqlFunctions = {
   to_hex: ['string'],
   trim: ['string'],
   upper: ['string'],
+  substring: ['string'],
+  left: ['string'],
+  right: ['string'],
+  split: ['string'],
+  substitute: ['string'],
+  regex_replace: ['string'],
 
   // Type coercion
   to_bool: ['*'],
@@ -229,8 +282,43 @@ export const SupportedAqlFunctions = {
   is_ipv4: ['*'],
   is_key: ['*'],
   typename: ['*'],
+
+  // ArangoSearch scoring; these are applied to the document rather than a property
+  bm25: [],
+  tfidf: [],
 };
 
+/**
+ * The number of arguments AQL functions take in addition to the value they're
+ * applied to, as `[minimum, maximum]` pairs. Functions that aren't listed
+ * don't take any.
+ */
+export const AqlFunctionArguments = {
+  date_trunc: [1, 1],
+  date_format: [1, 1],
+  date_add: [1, 2],
+  date_subtract: [1, 2],
+  date_diff: [2, 3],
+  trim: [0, 1],
+  ltrim: [0, 1],
+  rtrim: [0, 1],
+  substring: [1, 2],
+  left: [1, 1],
+  right: [1, 1],
+  split: [0, 2],
+  substitute: [1, 3],
+  regex_replace: [2, 3],
+  concat: [0, Infinity],
+  nth: [1, 1],
+  slice: [1, 2],
+} as const;
+
+/**
+ * ArangoSearch scoring functions; when used on a property, they're applied
+ * to its document variable rather than its path.
+ */
+export const AqlScoringFunctions = ['bm25', 'tfidf'] as const;
+
 export const SupportedAqlAggregateFunctions = {
   // Arrays/strings
   count: ['array', 'string', 'aggregate'],
@@ -0,0 +1,935 @@
+import { isArangoCollection } from 'arangojs/collection.js';
+import { isArangoGraph } from 'arangojs/graph.js';
+import { isArangoView } from 'arangojs/view.js';
+import { expressionOperators, sortMap } from './property.js';
+import {
+  AqlExpansionOptions,
+  modificationClauses,
+  traversalDirectionMap,
+} from './query.js';
+import { attributeNamePattern, variableNamePattern } from './paths.js';
+import {
+  AqlFunctionArguments,
+  SupportedAqlFunctions,
+  SupportedAqlAggregateFunctions,
+  isSupportedFunction,
+} from './type-guards.js';
+
+/**
+ * A problem found while validating an {@link AqQuery}; `path` points at the
+ * offending value, e.g. `filters[2].lt`.
+ */
+export interface AqValidationError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Checks an untrusted value against the {@link AqQuery} format, including
+ * nested subqueries, and returns a list of every problem found. An empty
+ * list means the value is a valid query.
+ *
+ * If `options.collections` is set, any collection or view the query uses
+ * that isn't in the list is reported as well.
+ *
+ * @example
+ * ```
+ * const errors = validateAqQuery(JSON.parse(input), { collections: ['responses'] });
+ * // [{ path: 'filters[2].lt', message: 'Expected string or number' }]
+ * ```
+ */
+export function validateAqQuery(
+  input: unknown,
+  options: Pick<AqlExpansionOptions, 'collections'> = {},
+): AqValidationError[] {
+  const errors: AqValidationError[] = [];
+  check(input, { ref: 'query' }, '', errors);
+  if (options.collections) {
+    for (const [path, collection] of collectionsUsed(input, '')) {
+      const name = typeof collection === 'string' ? collection : (collection as { name?: unknown })?.name;
+      if (typeof name === 'string' && !options.collections.includes(name)) {
+        errors.push({
+          path,
+          message: `Collection '${name}' is not in the list of allowed collections`,
+        });
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Generates a JSON Schema (draft-07) describing the {@link AqQuery} format.
+ * It's built from the same definitions as {@link validateAqQuery}.
+ */
+export function aqQueryJsonSchema(): Record<string, unknown> {
+  const schemaDefinitions: Record<string, unknown> = {};
+  for (const [name, shape] of Object.entries(definitions)) {
+    schemaDefinitions[name] = toJsonSchema(shape);
+  }
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: 'https://github.com/autogram-is/aql-builder/aq-query.schema.json',
+    title: 'AqQuery',
+    $ref: '#/definitions/query',
+    definitions: schemaDefinitions,
+  };
+}
+
+/**
+ * A minimal description of a JSON structure, used to drive both validation
+ * and JSON Schema generation.
+ */
+type Shape =
+  | { type: 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'any' }
+  | { enum: readonly (string | number | boolean | null)[]; label?: string }
+  | { pattern: RegExp; label: string }
+  | { array: Shape }
+  | { tuple: Shape[] }
+  | { record: Shape; keys?: RegExp; keyLabel?: string }
+  | { anyOf: Shape[] }
+  | { ref: DefinitionName }
+  | { instance: (input: unknown) => boolean; label: string }
+  | ObjectShape;
+
+type DefinitionName =
+  | 'property'
+  | 'filter'
+  | 'filterGroup'
+  | 'filterNode'
+  | 'search'
+  | 'searchGroup'
+  | 'searchNode'
+  | 'aggregate'
+  | 'sort'
+  | 'traversal'
+  | 'join'
+  | 'remove'
+  | 'patch'
+  | 'insert'
+  | 'update'
+  | 'upsert'
+  | 'subquery'
+  | 'let'
+  | 'operand'
+  | 'expression'
+  | 'into'
+  | 'window'
+  | 'query';
+
+type ObjectShape = {
+  properties: Record<string, Shape>;
+  required?: string[];
+  atLeastOne?: string[];
+  exactlyOne?: string[];
+  exclusive?: [string, string[]];
+  check?: (
+    input: Record<string, unknown>,
+    path: string,
+    errors: AqValidationError[],
+  ) => void;
+};
+
+const string: Shape = { type: 'string' };
+const number: Shape = { type: 'number' };
+const integer: Shape = { type: 'integer' };
+const primitive: Shape = {
+  anyOf: [string, number, { type: 'boolean' }, { type: 'null' }],
+};
+const trueOnly: Shape = { enum: [true] };
+const variableName: Shape = {
+  pattern: variableNamePattern,
+  label: 'variable name',
+};
+const collection: Shape = {
+  anyOf: [string, { instance: isArangoCollection, label: 'ArangoCollection' }],
+};
+const propertyName: Shape = { anyOf: [string, { tuple: [string, string] }] };
+const functionName: Shape = {
+  enum: Object.keys(SupportedAqlFunctions),
+  label: 'supported AQL function',
+};
+const aggregateName: Shape = {
+  enum: Object.keys(SupportedAqlAggregateFunctions),
+  label: 'supported AQL aggregate function',
+};
+const functionCall: Shape = {
+  anyOf: [
+    functionName,
+    {
+      properties: { name: functionName, args: { array: primitive } },
+      required: ['name'],
+    },
+  ],
+};
+
+const patchValues: Shape = {
+  record: { type: 'any' },
+  keys: attributeNamePattern,
+  keyLabel: 'attribute name',
+};
+
+const valueType: Shape = {
+  enum: ['string', 'number', 'boolean', 'object', 'array'],
+};
+
+const propertyFields: Record<string, Shape> = {
+  name: string,
+  path: string,
+  document: { anyOf: [string, { enum: [false] }] },
+  function: { anyOf: [functionName, { array: functionCall }] },
+  type: valueType,
+  distance: { tuple: [number, number] },
+  expression: { ref: 'expression' },
+};
+
+const operators = [...Object.keys(expressionOperators), 'concat'];
+
+const geoJson: Shape = {
+  properties: {
+    type: {
+      enum: [
+        'Point',
+        'MultiPoint',
+        'LineString',
+        'MultiLineString',
+        'Polygon',
+        'MultiPolygon',
+      ],
+    },
+    coordinates: { array: { type: 'any' } },
+  },
+  required: ['type', 'coordinates'],
+};
+
+function checkFunctionType(
+  input: Record<string, unknown>,
+  path: string,
+  errors: AqValidationError[],
+) {
+  const { function: func, type } = input;
+  if (Array.isArray(func)) {
+    checkFunctionChain(func, type, join(path, 'function'), errors);
+    return;
+  }
+  if (typeof func !== 'string') return;
+  if (AqlFunctionArguments[func as keyof typeof AqlFunctionArguments]?.[0]) {
+    errors.push({
+      path: join(path, 'function'),
+      message: `Function '${func}' requires arguments`,
+    });
+  }
+  if (typeof type !== 'string') return;
+  if (
+    func in SupportedAqlFunctions &&
+    !isSupportedFunction(func, false, type)
+  ) {
+    errors.push({
+      path: join(path, 'function'),
+      message: `Function '${func}' can't be used with ${type} values`,
+    });
+  }
+}
+
+function checkAggregateChain(
+  input: Record<string, unknown>,
+  path: string,
+  errors: AqValidationError[],
+) {
+  const { function: func, type } = input;
+  if (!Array.isArray(func)) return;
+  const last = func[func.length - 1];
+  if (typeof last !== 'string' || !(last in SupportedAqlAggregateFunctions)) {
+    errors.push({
+      path: join(path, `function[${Math.max(func.length - 1, 0)}]`),
+      message: 'Expected the chain to end with an aggregate function',
+    });
+  }
+  checkFunctionChain(func.slice(0, -1), type, join(path, 'function'), errors);
+}
+
+function checkFunctionChain(
+  chain: unknown[],
+  type: unknown,
+  path: string,
+  errors: AqValidationError[],
+) {
+  chain.forEach((call, i) => {
+    const { name, args = [] } =
+      typeof call === 'string' ? { name: call } : (call as Record<string, unknown>) ?? {};
+    if (typeof name !== 'string' || !(name in SupportedAqlFunctions)) return;
+    if (i === 0 && typeof type === 'string' && !isSupportedFunction(name, false, type)) {
+      errors.push({
+        path: `${path}[0]`,
+        message: `Function '${name}' can't be used with ${type} values`,
+      });
+    }
+    const [min, max]: readonly number[] =
+      AqlFunctionArguments[name as keyof typeof AqlFunctionArguments] ?? [0, 0];
+    const count = Array.isArray(args) ? args.length : 0;
+    if (count < min || count > max) {
+      errors.push({
+        path: `${path}[${i}]`,
+        message: `Function '${name}' doesn't take ${count} extra argument${count === 1 ? '' : 's'}`,
+      });
+    }
+  });
+}
+
+function checkExpression(
+  input: Record<string, unknown>,
+  path: string,
+  errors: AqValidationError[],
+) {
+  for (const key of operators) {
+    const operands = input[key];
+    if (Array.isArray(operands) && operands.length < 2) {
+      errors.push({ path: join(path, key), message: 'Expected at least 2 operands' });
+    }
+  }
+  if (input.if === undefined) return;
+  for (const key of ['then', 'else']) {
+    if (input[key] === undefined) {
+      errors.push({
+        path: join(path, key),
+        message: `Missing required property '${key}'`,
+      });
+    }
+  }
+}
+
+const definitions: Record<DefinitionName, Shape> = {
+  property: {
+    properties: propertyFields,
+    atLeastOne: ['name', 'path', 'expression'],
+    check: checkFunctionType,
+  },
+
+  filter: {
+    properties: {
+      ...propertyFields,
+      join: primitive,
+      eq: primitive,
+      lt: { anyOf: [string, number] },
+      gt: { anyOf: [string, number] },
+      in: { anyOf: [{ array: primitive }, string] },
+      contains: primitive,
+      like: string,
+      startsWith: string,
+      endsWith: string,
+      regex: string,
+      fuzzy: {
+        properties: { text: string, distance: integer },
+        required: ['text', 'distance'],
+      },
+      caseInsensitive: trueOnly,
+      near: {
+        properties: { point: { tuple: [number, number] }, radius: number },
+        required: ['point', 'radius'],
+      },
+      within: geoJson,
+      intersects: geoJson,
+      value: { enum: ['literal', 'dynamic'] },
+      negate: trueOnly,
+    },
+    atLeastOne: ['name', 'path', 'expression'],
+    check: checkFunctionType,
+  },
+
+  filterGroup: {
+    properties: {
+      or: { array: { ref: 'filterNode' } },
+      and: { array: { ref: 'filterNode' } },
+      not: { ref: 'filterNode' },
+    },
+    exactlyOne: ['or', 'and', 'not'],
+  },
+
+  filterNode: {
+    anyOf: [propertyName, { ref: 'filter' }, { ref: 'filterGroup' }],
+  },
+
+  search: {
+    properties: {
+      ...propertyFields,
+      analyzer: string,
+      eq: primitive,
+      lt: { anyOf: [string, number] },
+      gt: { anyOf: [string, number] },
+      in: { array: primitive },
+      phrase: string,
+      tokens: string,
+      startsWith: { anyOf: [string, { array: string }] },
+      boost: number,
+      negate: trueOnly,
+    },
+    atLeastOne: ['name', 'path', 'expression'],
+  },
+
+  searchGroup: {
+    properties: {
+      or: { array: { ref: 'searchNode' } },
+      and: { array: { ref: 'searchNode' } },
+      not: { ref: 'searchNode' },
+    },
+    exactlyOne: ['or', 'and', 'not'],
+  },
+
+  searchNode: { anyOf: [{ ref: 'search' }, { ref: 'searchGroup' }] },
+
+  aggregate: {
+    properties: {
+      ...propertyFields,
+      function: {
+        anyOf: [aggregateName, { array: { anyOf: [functionCall, aggregateName] } }],
+      },
+    },
+    required: ['function'],
+    atLeastOne: ['name', 'path', 'expression'],
+    check: checkAggregateChain,
+  },
+
+  sort: {
+    properties: {
+      ...propertyFields,
+      direction: { enum: Object.keys(sortMap) },
+    },
+    required: ['direction'],
+    atLeastOne: ['name', 'path', 'expression'],
+    check: checkFunctionType,
+  },
+
+  traversal: {
+    properties: {
+      start: string,
+      value: { enum: ['literal', 'dynamic'] },
+      direction: { enum: Object.keys(traversalDirectionMap) },
+      min: integer,
+      max: integer,
+      vertex: variableName,
+      edge: variableName,
+      path: variableName,
+      edges: { array: collection },
+      graph: { anyOf: [string, { instance: isArangoGraph, label: 'Graph' }] },
+    },
+    required: ['start', 'direction'],
+    exactlyOne: ['edges', 'graph'],
+  },
+
+  join: {
+    properties: {
+      collection,
+      document: variableName,
+      on: { record: { anyOf: [string, { ref: 'property' }] } },
+      mode: { enum: ['inner', 'left'] },
+    },
+    required: ['collection', 'document', 'on'],
+  },
+
+  remove: {
+    properties: { collection, property: string, value: string },
+    required: ['collection'],
+    exactlyOne: ['property', 'value'],
+  },
+
+  patch: {
+    properties: {
+      properties: { array: { anyOf: [propertyName, { ref: 'property' }] } },
+      values: patchValues,
+    },
+  },
+
+  insert: {
+    properties: {
+      collection,
+      properties: { array: { anyOf: [propertyName, { ref: 'property' }] } },
+      values: patchValues,
+      returning: { enum: ['new'] },
+    },
+    required: ['collection'],
+  },
+
+  update: {
+    properties: {
+      collection,
+      property: string,
+      value: string,
+      properties: { array: { anyOf: [propertyName, { ref: 'property' }] } },
+      values: patchValues,
+      returning: { enum: ['new', 'old'] },
+    },
+  },
+
+  upsert: {
+    properties: {
+      collection,
+      match: { ref: 'patch' },
+      insert: { ref: 'patch' },
+      update: { ref: 'patch' },
+      replace: trueOnly,
+      returning: { enum: ['new', 'old'] },
+    },
+    required: ['match', 'insert'],
+  },
+
+  subquery: {
+    properties: {
+      name: string,
+      document: { anyOf: [string, { enum: [false] }] },
+      function: functionName,
+      type: propertyFields.type,
+      query: { ref: 'query' },
+    },
+    required: ['query'],
+  },
+
+  operand: {
+    anyOf: [
+      string,
+      { properties: { value: primitive }, required: ['value'] },
+      { ref: 'property' },
+      { ref: 'expression' },
+    ],
+  },
+
+  expression: {
+    properties: {
+      ...Object.fromEntries(
+        operators.map(key => [key, { array: { ref: 'operand' } }]),
+      ),
+      if: { anyOf: [{ ref: 'filter' }, { ref: 'filterGroup' }] },
+      then: { ref: 'operand' },
+      else: { ref: 'operand' },
+    },
+    exactlyOne: [...operators, 'if'],
+    check: checkExpression,
+  },
+
+  let: {
+    anyOf: [
+      string,
+      { ref: 'property' },
+      { properties: { value: { type: 'any' } }, required: ['value'] },
+    ],
+  },
+
+  into: {
+    properties: {
+      name: variableName,
+      properties: { array: { anyOf: [propertyName, { ref: 'property' }] } },
+      keep: { array: variableName },
+    },
+    required: ['name'],
+    exclusive: ['properties', ['keep']],
+  },
+
+  window: {
+    properties: {
+      aggregates: { array: { ref: 'aggregate' } },
+      preceding: { anyOf: [number, string] },
+      following: { anyOf: [number, string] },
+      range: { anyOf: [string, { ref: 'property' }] },
+      sort: { anyOf: [string, { ref: 'sort' }] },
+    },
+    required: ['aggregates'],
+  },
+
+  query: {
+    properties: {
+      comment: string,
+      metadata: { record: { anyOf: [string, { type: 'null' }] } },
+      collection,
+      traversal: { ref: 'traversal' },
+      joins: { array: { ref: 'join' } },
+      correlate: { record: { anyOf: [string, { ref: 'property' }] } },
+      types: { record: valueType },
+      view: { anyOf: [string, { instance: isArangoView, label: 'View' }] },
+      document: variableName,
+      inline: trueOnly,
+      subqueries: { array: { anyOf: [{ ref: 'subquery' }, { ref: 'query' }] } },
+      lets: { record: { ref: 'let' }, keys: variableNamePattern },
+      preFilters: { array: { ref: 'filterNode' } },
+      filters: { array: { ref: 'filterNode' } },
+      postFilters: { array: { ref: 'filterNode' } },
+      search: { array: { ref: 'searchNode' } },
+      aggregates: { array: { anyOf: [propertyName, { ref: 'aggregate' }] } },
+      count: { anyOf: [variableName, { enum: [false] }] },
+      into: { anyOf: [variableName, { ref: 'into' }] },
+      windows: { array: { ref: 'window' } },
+      sorts: {
+        anyOf: [
+          { array: { anyOf: [string, { ref: 'sort' }] } },
+          { type: 'null' },
+        ],
+      },
+      limit: { anyOf: [number, { enum: [false] }] },
+      offset: integer,
+      cursor: { anyOf: [trueOnly, string] },
+      options: {
+        properties: {
+          batchSize: integer,
+          ttl: number,
+          fullCount: { type: 'boolean' },
+          maxRuntime: number,
+        },
+      },
+      return: { array: { anyOf: [propertyName, { ref: 'property' }] } },
+      remove: {
+        anyOf: [
+          trueOnly,
+          { array: { anyOf: [collection, { ref: 'remove' }] } },
+        ],
+      },
+      insert: { anyOf: [collection, { ref: 'insert' }] },
+      update: { ref: 'update' },
+      replace: { ref: 'update' },
+      upsert: { ref: 'upsert' },
+    },
+    atLeastOne: ['collection', 'traversal', 'view', 'subqueries', 'lets'],
+    exclusive: ['return', modificationClauses],
+  },
+};
+
+function check(
+  input: unknown,
+  shape: Shape,
+  path: string,
+  errors: AqValidationError[],
+): void {
+  if ('ref' in shape) {
+    return check(input, definitions[shape.ref], path, errors);
+  }
+
+  if ('type' in shape) {
+    if (!matchesType(input, shape.type)) {
+      errors.push({ path, message: `Expected ${shape.type}` });
+    }
+  } else if ('enum' in shape) {
+    if (!shape.enum.includes(input as string)) {
+      const expected =
+        shape.label ?? shape.enum.map(e => JSON.stringify(e)).join(', ');
+      errors.push({
+        path,
+        message: `Expected ${
+          shape.enum.length > 1 && !shape.label ? 'one of ' : ''
+        }${expected}`,
+      });
+    }
+  } else if ('pattern' in shape) {
+    if (typeof input !== 'string') {
+      errors.push({ path, message: 'Expected string' });
+    } else if (!shape.pattern.test(input)) {
+      errors.push({ path, message: `'${input}' is not a valid ${shape.label}` });
+    }
+  } else if ('instance' in shape) {
+    if (!shape.instance(input)) {
+      errors.push({ path, message: `Expected ${shape.label}` });
+    }
+  } else if ('array' in shape) {
+    if (!Array.isArray(input)) {
+      errors.push({ path, message: 'Expected array' });
+    } else {
+      input.forEach((item, i) =>
+        check(item, shape.array, `${path}[${i}]`, errors),
+      );
+    }
+  } else if ('tuple' in shape) {
+    if (!Array.isArray(input) || input.length !== shape.tuple.length) {
+      errors.push({
+        path,
+        message: `Expected array of ${shape.tuple.length} items`,
+      });
+    } else {
+      shape.tuple.forEach((s, i) =>
+        check(input[i], s, `${path}[${i}]`, errors),
+      );
+    }
+  } else if ('record' in shape) {
+    if (!isPlainObject(input)) {
+      errors.push({ path, message: 'Expected object' });
+    } else {
+      for (const [key, value] of Object.entries(input)) {
+        if (shape.keys && !shape.keys.test(key)) {
+          errors.push({
+            path: join(path, key),
+            message: `'${key}' is not a valid ${shape.keyLabel ?? 'variable name'}`,
+          });
+        }
+        check(value, shape.record, join(path, key), errors);
+      }
+    }
+  } else if ('anyOf' in shape) {
+    checkAnyOf(input, shape.anyOf, path, errors);
+  } else {
+    checkObject(input, shape, path, errors);
+  }
+}
+
+/**
+ * Validates against the alternative that best fits the input, so errors
+ * point inside it rather than just reporting that nothing matched.
+ */
+function checkAnyOf(
+  input: unknown,
+  options: Shape[],
+  path: string,
+  errors: AqValidationError[],
+) {
+  const candidates = options.filter(o =>
+    kindOf(resolve(o)).includes(jsonKind(input)),
+  );
+  if (candidates.length === 0) {
+    const expected = [...new Set(options.flatMap(o => describe(resolve(o))))];
+    errors.push({ path, message: `Expected ${expected.join(' or ')}` });
+    return;
+  }
+
+  let best: AqValidationError[] | undefined;
+  let bestScore = -1;
+  for (const candidate of candidates) {
+    const candidateErrors: AqValidationError[] = [];
+    check(input, candidate, path, candidateErrors);
+    if (candidateErrors.length === 0) return;
+
+    const resolved = resolve(candidate);
+    const score =
+      'properties' in resolved && isPlainObject(input)
+        ? Object.keys(input).filter(k => k in resolved.properties).length
+        : 0;
+    if (score > bestScore) {
+      best = candidateErrors;
+      bestScore = score;
+    }
+  }
+  errors.push(...(best ?? []));
+}
+
+function checkObject(
+  input: unknown,
+  shape: ObjectShape,
+  path: string,
+  errors: AqValidationError[],
+) {
+  if (!isPlainObject(input)) {
+    errors.push({ path, message: 'Expected object' });
+    return;
+  }
+
+  for (const [key, value] of Object.entries(input)) {
+    if (value === undefined) continue;
+    const property = shape.properties[key];
+    if (property === undefined) {
+      errors.push({
+        path: join(path, key),
+        message: `Unknown property '${key}'`,
+      });
+    } else {
+      check(value, property, join(path, key), errors);
+    }
+  }
+
+  const present = (key: string) => input[key] !== undefined;
+  for (const key of shape.required ?? []) {
+    if (!present(key)) {
+      errors.push({
+        path: join(path, key),
+        message: `Missing required property '${key}'`,
+      });
+    }
+  }
+  if (shape.atLeastOne && !shape.atLeastOne.some(present)) {
+    errors.push({
+      path,
+      message: `Requires at least one of ${list(shape.atLeastOne)}`,
+    });
+  }
+  if (shape.exactlyOne && shape.exactlyOne.filter(present).length !== 1) {
+    errors.push({
+      path,
+      message: `Requires exactly one of ${list(shape.exactlyOne)}`,
+    });
+  }
+  if (shape.exclusive && present(shape.exclusive[0])) {
+    const [key, others] = shape.exclusive;
+    for (const other of others.filter(present)) {
+      errors.push({
+        path: join(path, other),
+        message: `'${key}' and '${other}' are mutually exclusive`,
+      });
+    }
+  }
+  shape.check?.(input, path, errors);
+}
+
+/**
+ * Lists the collections and views a query reads from or writes to, including
+ * those of its subqueries, along with the path to each one.
+ */
+function collectionsUsed(query: unknown, path: string): [string, unknown][] {
+  if (!isPlainObject(query)) return [];
+  const used: [string, unknown][] = [];
+  const add = (p: string, value: unknown) => {
+    if (value !== undefined) used.push([p, value]);
+  };
+  const each = (items: unknown, p: string, fn: (item: unknown, p: string) => void) => {
+    if (Array.isArray(items)) items.forEach((item, i) => fn(item, `${p}[${i}]`));
+  };
+
+  add(join(path, 'collection'), query.collection);
+  add(join(path, 'view'), query.view);
+  if (isPlainObject(query.traversal)) {
+    each(query.traversal.edges, join(path, 'traversal.edges'), (e, p) => add(p, e));
+  }
+  each(query.joins, join(path, 'joins'), (j, p) => {
+    if (isPlainObject(j)) add(join(p, 'collection'), j.collection);
+  });
+  each(query.remove, join(path, 'remove'), (r, p) => {
+    if (isPlainObject(r)) add(join(p, 'collection'), r.collection);
+    else add(p, r);
+  });
+  for (const clause of modificationClauses.filter(m => m !== 'remove')) {
+    const mod = query[clause];
+    if (isPlainObject(mod)) add(join(path, `${clause}.collection`), mod.collection);
+    else if (mod !== undefined) add(join(path, clause), mod);
+  }
+  each(query.subqueries, join(path, 'subqueries'), (q, p) => {
+    if (isPlainObject(q) && 'query' in q) used.push(...collectionsUsed(q.query, join(p, 'query')));
+    else used.push(...collectionsUsed(q, p));
+  });
+  return used;
+}
+
+function toJsonSchema(shape: Shape): Record<string, unknown> {
+  if ('ref' in shape) return { $ref: `#/definitions/${shape.ref}` };
+  if ('type' in shape) return shape.type === 'any' ? {} : { type: shape.type };
+  if ('enum' in shape) return { enum: [...shape.enum] };
+  if ('pattern' in shape) return { type: 'string', pattern: shape.pattern.source };
+  if ('instance' in shape)
+    return { type: 'string', description: `The name of a ${shape.label}` };
+  if ('array' in shape)
+    return { type: 'array', items: toJsonSchema(shape.array) };
+  if ('tuple' in shape) {
+    return {
+      type: 'array',
+      items: shape.tuple.map(toJsonSchema),
+      minItems: shape.tuple.length,
+      maxItems: shape.tuple.length,
+    };
+  }
+  if ('record' in shape) {
+    return {
+      type: 'object',
+      additionalProperties: toJsonSchema(shape.record),
+      ...(shape.keys && { propertyNames: { pattern: shape.keys.source } }),
+    };
+  }
+  if ('anyOf' in shape) return { anyOf: shape.anyOf.map(toJsonSchema) };
+
+  const schema: Record<string, unknown> = {
+    type: 'object',
+    properties: Object.fromEntries(
+      Object.entries(shape.properties).map(([k, v]) => [k, toJsonSchema(v)]),
+    ),
+    additionalProperties: false,
+  };
+  if (shape.required) schema.required = shape.required;
+
+  const allOf: Record<string, unknown>[] = [];
+  if (shape.atLeastOne) {
+    allOf.push({ anyOf: shape.atLeastOne.map(k => ({ required: [k] })) });
+  }
+  if (shape.exactlyOne) {
+    allOf.push({ oneOf: shape.exactlyOne.map(k => ({ required: [k] })) });
+  }
+  if (shape.exclusive) {
+    const [key, others] = shape.exclusive;
+    allOf.push({
+      not: { required: [key], anyOf: others.map(k => ({ required: [k] })) },
+    });
+  }
+  if (allOf.length) schema.allOf = allOf;
+  return schema;
+}
+
+function resolve(shape: Shape): Exclude<Shape, { ref: string }> {
+  return 'ref' in shape ? resolve(definitions[shape.ref]) : shape;
+}
+
+type JsonKind =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'null'
+  | 'array'
+  | 'object'
+  | 'other';
+
+function jsonKind(input: unknown): JsonKind {
+  if (input === null) return 'null';
+  if (Array.isArray(input)) return 'array';
+  if (isPlainObject(input)) return 'object';
+  if (isArangoCollection(input) || isArangoGraph(input) || isArangoView(input))
+    return 'other';
+  const kind = typeof input;
+  return kind === 'string' || kind === 'number' || kind === 'boolean'
+    ? kind
+    : 'other';
+}
+
+function kindOf(shape: Exclude<Shape, { ref: string }>): JsonKind[] {
+  if ('type' in shape) {
+    if (shape.type === 'any')
+      return ['string', 'number', 'boolean', 'null', 'array', 'object'];
+    return [shape.type === 'integer' ? 'number' : shape.type];
+  }
+  if ('enum' in shape) return [...new Set(shape.enum.map(jsonKind))];
+  if ('pattern' in shape) return ['string'];
+  if ('instance' in shape) return ['other'];
+  if ('array' in shape || 'tuple' in shape) return ['array'];
+  if ('anyOf' in shape) return shape.anyOf.flatMap(s => kindOf(resolve(s)));
+  return ['object'];
+}
+
+function describe(shape: Exclude<Shape, { ref: string }>): string[] {
+  if ('type' in shape) return [shape.type];
+  if ('enum' in shape)
+    return shape.label ? [shape.label] : shape.enum.map(e => JSON.stringify(e));
+  if ('pattern' in shape || 'instance' in shape) return [shape.label];
+  if ('array' in shape || 'tuple' in shape) return ['array'];
+  if ('anyOf' in shape) return shape.anyOf.flatMap(s => describe(resolve(s)));
+  return ['object'];
+}
+
+function matchesType(input: unknown, type: string) {
+  switch (type) {
+    case 'any':
+      return true;
+    case 'integer':
+      return Number.isInteger(input);
+    case 'number':
+      return typeof input === 'number' && Number.isFinite(input);
+    case 'null':
+      return input === null;
+    default:
+      return typeof input === type;
+  }
+}
+
+function isPlainObject(input: unknown): input is Record<string, unknown> {
+  return (
+    input !== null &&
+    typeof input === 'object' &&
+    !Array.isArray(input) &&
+    !isArangoCollection(input) &&
+    !isArangoGraph(input) &&
+    !isArangoView(input)
+  );
+}
+
+function join(path: string, key: string) {
+  return path ? `${path}.${key}` : key;
+}
+
+function list(keys: string[]) {
+  return keys.map(k => `'${k}'`).join(', ');
+}
@@ -4,7 +4,7 @@ import { buildQuery } from '../src/build-query.js';
 
 test('render from spec', t => {
   const expected = `
-    FOR item IN collection
+    FOR item IN @@value0
     COLLECT prop1 = item.prop1
     AGGREGATE prop2 = SUM(item.prop2), prop3 = SUM(CHAR_LENGTH(item.prop3))
     RETURN { prop1, prop2, prop3 }
@@ -29,7 +29,7 @@ test('render from spec', t => {
 
 test('aggregate and custom total', t => {
   const expected = `
-    FOR item IN collection
+    FOR item IN @@value0
     COLLECT prop1 = item.prop1
     AGGREGATE
       prop2 = SUM(item.prop2),
@@ -58,7 +58,7 @@ test('aggregate and custom total', t => {
 
 test('render with total', t => {
   const expected = `
-    FOR item IN collection
+    FOR item IN @@value0
     COLLECT prop1 = item.prop1
     WITH COUNT INTO total
     RETURN { prop1, total }
@@ -0,0 +1,120 @@
+import test from 'ava';
+import { buildQuery } from '../src/build-query.js';
+import { renderAttributePath } from '../src/paths.js';
+import { AqQuery } from '../src/query.js';
+import { validateAqQuery } from '../src/validate.js';
+
+test('attribute names are quoted when needed', t => {
+  t.is(
+    renderAttributePath('headers.content-type', 'item'),
+    'item.headers.`content-type`',
+  );
+  t.is(
+    renderAttributePath('meta.filter.sort', 'item'),
+    'item.meta.`filter`.`sort`',
+  );
+  t.is(renderAttributePath('tags[*].name', 'item'), 'item.tags[*].name');
+  t.is(renderAttributePath('links[-1][0]', 'item'), 'item.links[-1][0]');
+  t.is(
+    renderAttributePath(`meta['og.title']`, 'item'),
+    'item.meta["og.title"]',
+  );
+  t.is(renderAttributePath('page._key'), 'page._key');
+});
+
+test('invalid paths are rejected', t => {
+  const invalid = [
+    'url == 1 || true',
+    'url) RETURN 1 //',
+    'tags[0',
+    'tags[x]',
+    'meta.`title`',
+    'meta..title',
+    'meta.',
+    '',
+  ];
+  for (const path of invalid) {
+    t.throws(() => renderAttributePath(path, 'item'), {
+      instanceOf: TypeError,
+      message: /^Invalid attribute path/,
+    });
+  }
+  t.throws(() => renderAttributePath('for.url'), {
+    instanceOf: TypeError,
+    message:
+      "Invalid attribute path 'for.url': 'for' isn't a valid variable name",
+  });
+});
+
+test('queries only accept valid identifiers', t => {
+  t.is(
+    buildQuery({
+      collection: 'pages',
+      filters: [{ path: 'headers.x-robots', eq: 'noindex' }],
+      return: [{ name: 'robots', path: 'headers.x-robots' }],
+    }).query.replace(/[\r\s]+/g, ' '),
+    'FOR item IN @@value0 FILTER item.headers.`x-robots` == @value1 RETURN item.headers.`x-robots`',
+  );
+
+  t.throws(
+    () =>
+      buildQuery({
+        collection: 'pages',
+        filters: [{ path: 'url', eq: '1 OR true', value: 'dynamic' }],
+      }),
+    { instanceOf: TypeError, message: /^Invalid attribute path '1 OR true'/ },
+  );
+  t.throws(
+    () => buildQuery({ collection: 'pages', document: 'item REMOVE item' }),
+    {
+      instanceOf: TypeError,
+      message: "'item REMOVE item' is not a valid variable name",
+    },
+  );
+  t.throws(
+    () =>
+      buildQuery({
+        collection: 'pages',
+        return: [{ name: 'url: 1, x', path: 'url' }],
+      }),
+    { instanceOf: TypeError, message: /is not a valid variable name/ },
+  );
+  t.throws(
+    () =>
+      buildQuery({
+        collection: 'pages',
+        aggregates: ['mime'],
+        count: 'x RETURN 1 //',
+      }),
+    {
+      instanceOf: TypeError,
+      message: "'x RETURN 1 //' is not a valid variable name",
+    },
+  );
+});
+
+test('patch keys are quoted as attribute names', t => {
+  const q = buildQuery({
+    collection: 'pages',
+    update: { values: { 'content-type': 'text/html', archived: true } },
+  });
+  t.true(
+    q.query.includes('WITH { `content-type`: @value1, archived: @value2 }'),
+  );
+
+  const key = 'a:(FOR d IN secrets RETURN d),b';
+  const spec: AqQuery = {
+    collection: 'pages',
+    insert: { collection: 'copies', values: { [key]: 1 } },
+  };
+  t.throws(() => buildQuery(spec), {
+    instanceOf: TypeError,
+    message: `'${key}' is not a valid attribute name`,
+  });
+  t.deepEqual(validateAqQuery(spec), [
+    {
+      path: `insert.values.${key}`,
+      message: `'${key}' is not a valid attribute name`,
+    },
+  ]);
+});
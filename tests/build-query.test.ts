@@ -3,13 +3,13 @@ import { AqBuilder } from '../src/builder.js';
 
 test('query renders', t => {
   const rendered = `
-  FOR item IN responses
-  FILTER item.url.domain IN @value0
+  FOR item IN @@value0
+  FILTER item.url.domain IN @value1
   COLLECT
     status = item.status,
     mime = item.mime
   WITH COUNT INTO howMany
-  FILTER status IN @value1
+  FILTER status IN @value2
   SORT howMany DESC
   RETURN {
     status,
@@ -22,7 +22,7 @@ test('query renders', t => {
     .groupBy('status')
     .groupBy('mime')
     .count('howMany')
-    .filterBy('status', [200, 404])
+    .postFilterBy('status', [200, 404])
     .sortBy('howMany', 'desc')
     .build();
 
@@ -34,13 +34,13 @@ test('query renders', t => {
 
 test('custom document', t => {
   const rendered = `
-  FOR r IN responses
-  FILTER r.url.domain IN @value0
+  FOR r IN @@value0
+  FILTER r.url.domain IN @value1
   COLLECT
     status = r.status,
     mime = r.mime
   WITH COUNT INTO total
-  FILTER status IN @value1
+  FILTER status IN @value2
   SORT total DESC
   RETURN {
     status,
@@ -53,7 +53,7 @@ test('custom document', t => {
     .groupBy('status')
     .groupBy('mime')
     .count('total')
-    .filterBy('status', [200, 404])
+    .postFilterBy('status', [200, 404])
     .sortBy('total', 'desc')
     .build();
 
@@ -4,13 +4,13 @@ import { AqBuilder } from '../src/builder.js';
 test('query comment', t => {
   const rendered = `
   /** comment goes here */
-  FOR item IN responses
-  FILTER item.url.domain IN @value0
+  FOR item IN @@value0
+  FILTER item.url.domain IN @value1
   COLLECT
     status = item.status,
     mime = item.mime
   WITH COUNT INTO total
-  FILTER status IN @value1
+  FILTER status IN @value2
   SORT total DESC
   RETURN {
     status,
@@ -23,7 +23,7 @@ test('query comment', t => {
     .groupBy('status')
     .groupBy('mime')
     .count('total')
-    .filterBy('status', [200, 404])
+    .postFilterBy('status', [200, 404])
     .sortBy('total', 'desc')
     .comment('comment goes here')
     .build();
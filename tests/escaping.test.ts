@@ -1,6 +1,8 @@
 import test from 'ava';
 import { AqQuery } from "../src/query.js";
 import { buildQuery } from '../src/build-query.js';
+import { AqBuilder } from '../src/builder.js';
+import { validateAqQuery } from '../src/validate.js';
 
 test('bind vars identified', t => {
 
@@ -23,7 +25,7 @@ test('bind vars identified', t => {
 
   const aq = buildQuery(q);
 
-  t.deepEqual(aq.bindVars, { value0: 200, value1: 'text/html', value2: 20 });
+  t.deepEqual(aq.bindVars, { '@value0': 'resources', value1: 200, value2: 'text/html', value3: 20 });
 });
 
 
@@ -43,8 +45,47 @@ test('function wrapping', t => {
     "limit": 20
   };
 
-  const expected = `FOR item IN resources\nFILTER COUNT(item.code) == @value0\nLIMIT @value1\nRETURN item`;
+  const expected = `FOR item IN @@value0\nFILTER COUNT(item.code) == @value1\nLIMIT @value2\nRETURN item`;
   const aq = buildQuery(q);
 
   t.is(aq.query, expected);
-});
\ No newline at end of file
+});
+test('collection names are bound', t => {
+  const aq = buildQuery({
+    collection: 'responses',
+    joins: [{ collection: 'pages', document: 'page', on: { url: 'url' } }],
+    remove: ['responses'],
+  });
+
+  t.is(
+    aq.query.replace(/[\r\s]+/g, ' '),
+    'FOR item IN @@value0 FOR page IN @@value1 FILTER page.url == item.url REMOVE { _key: item._key } IN @@value0',
+  );
+  t.deepEqual(aq.bindVars, {
+    '@value0': 'responses',
+    '@value1': 'pages',
+  });
+});
+
+test('collections can be limited to an allow-list', t => {
+  const q: AqQuery = {
+    collection: 'pages',
+    subqueries: [{ name: 'links', query: { collection: 'links' } }],
+  };
+
+  t.notThrows(() => buildQuery(q, { collections: ['pages', 'links'] }));
+  t.throws(() => buildQuery(q, { collections: ['pages'] }), {
+    instanceOf: TypeError,
+    message: "Collection 'links' is not in the list of allowed collections",
+  });
+  t.throws(() => new AqBuilder(q).allowCollections(['pages']).build(), {
+    instanceOf: TypeError,
+    message: "Collection 'links' is not in the list of allowed collections",
+  });
+  t.deepEqual(validateAqQuery(q, { collections: ['pages'] }), [
+    {
+      path: 'subqueries[0].query.collection',
+      message: "Collection 'links' is not in the list of allowed collections",
+    },
+  ]);
+});
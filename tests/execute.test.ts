@@ -0,0 +1,132 @@
+import test from 'ava';
+import { AqlQuery } from 'arangojs/aql.js';
+import { Database, QueryOptions } from 'arangojs/database.js';
+import { AqBuilder } from '../src/builder.js';
+import { AqCursor, AqDatabase, AqQueryError } from '../src/execute.js';
+
+class StubCursor<T> implements AqCursor<T> {
+  killed = false;
+  protected pending: T[][];
+
+  constructor(batches: T[][]) {
+    this.pending = [...batches];
+  }
+
+  get hasNext() {
+    return this.pending.some(b => b.length > 0);
+  }
+
+  get batches(): AsyncIterable<T[]> {
+    const pending = this.pending;
+    return {
+      [Symbol.asyncIterator]: () => ({
+        next: async () =>
+          pending.length
+            ? { done: false, value: pending.shift() as T[] }
+            : { done: true, value: undefined },
+      }),
+    };
+  }
+
+  async all() {
+    const rows = this.pending.flat();
+    this.pending = [];
+    return rows;
+  }
+
+  async next() {
+    while (this.pending.length && this.pending[0].length === 0) this.pending.shift();
+    return this.pending[0]?.shift();
+  }
+
+  async kill() {
+    this.killed = true;
+    this.pending = [];
+  }
+}
+
+class StubDatabase implements AqDatabase {
+  calls: { query: AqlQuery; options?: QueryOptions }[] = [];
+  cursor?: StubCursor<unknown>;
+
+  constructor(protected rows: unknown[], protected error?: Error) {}
+
+  async query<T>(query: AqlQuery<T>, options?: QueryOptions) {
+    this.calls.push({ query, options });
+    if (this.error) throw this.error;
+
+    const size = options?.batchSize ?? this.rows.length;
+    const batches: unknown[][] = [];
+    for (let i = 0; i < this.rows.length; i += size) {
+      batches.push(this.rows.slice(i, i + size));
+    }
+    this.cursor = new StubCursor(batches);
+    return this.cursor as StubCursor<T>;
+  }
+}
+
+test('arangojs databases satisfy the query contract', t => {
+  const db: AqDatabase = new Database();
+  t.truthy(db);
+});
+
+test('all results are returned, with spec options passed through', async t => {
+  const db = new StubDatabase([1, 2, 3]);
+  const q = new AqBuilder({ collection: 'pages', options: { batchSize: 2, ttl: 30 } }).return('status');
+
+  t.deepEqual(await q.all(db, { fullCount: true }), [1, 2, 3]);
+  t.is(db.calls[0].query.query, q.build().query);
+  t.deepEqual(db.calls[0].options, { batchSize: 2, ttl: 30, fullCount: true });
+});
+
+test('first result discards the rest of the cursor', async t => {
+  const db = new StubDatabase(['a', 'b']);
+  const first = await new AqBuilder('pages').first(db);
+
+  t.is(first, 'a');
+  t.is(db.calls[0].options?.batchSize, 1);
+  t.true(db.cursor?.killed);
+});
+
+test('batches are streamed', async t => {
+  const db = new StubDatabase([1, 2, 3, 4, 5]);
+  const batches: unknown[][] = [];
+  for await (const batch of new AqBuilder('pages').options({ batchSize: 2 }).batches(db)) {
+    batches.push(batch);
+  }
+  t.deepEqual(batches, [[1, 2], [3, 4], [5]]);
+  t.false(db.cursor?.killed);
+});
+
+test('stopping early releases the cursor', async t => {
+  const db = new StubDatabase([1, 2, 3, 4, 5]);
+  for await (const batch of new AqBuilder('pages').batches(db, { batchSize: 2 })) {
+    t.deepEqual(batch, [1, 2]);
+    break;
+  }
+  t.true(db.cursor?.killed);
+});
+
+test('failures are wrapped with the query', async t => {
+  const db = new StubDatabase([], new Error('collection or view not found'));
+  const q = new AqBuilder('pages');
+
+  const error = await t.throwsAsync(() => q.all(db), { instanceOf: AqQueryError });
+  t.is(error?.message, 'Query failed: collection or view not found');
+  t.is(error?.query.query, q.build().query);
+  t.true(error?.cause instanceof Error);
+});
+
+test('build errors are returned as rejections', async t => {
+  const db = new StubDatabase([1]);
+  const q = new AqBuilder('pages').allowCollections(['responses']);
+
+  const pending = [q.run(db), q.all(db), q.first(db), q.batches(db).next()];
+  for (const result of pending) {
+    await t.throwsAsync(result, {
+      instanceOf: TypeError,
+      message: "Collection 'pages' is not in the list of allowed collections",
+    });
+  }
+  t.is(db.calls.length, 0);
+});
@@ -0,0 +1,129 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { buildQuery, renderExpression } from '../src/build-query.js';
+import { validateAqQuery } from '../src/validate.js';
+
+test('operators and literal values', t => {
+  const q = renderExpression(
+    {
+      divide: [
+        { subtract: ['bytes', 'headers.length'] },
+        { coalesce: ['requests', { value: 1 }] },
+      ],
+    },
+    'item',
+  );
+
+  t.is(
+    q.query,
+    '((item.bytes - item.headers.length) / (item.requests ?: @value0))',
+  );
+  t.deepEqual(q.bindVars, { value0: 1 });
+});
+
+test('expressions are rendered everywhere properties are', t => {
+  const q = buildQuery({
+    collection: 'people',
+    filters: [{ expression: { add: ['visits', 'returns'] }, gt: 10 }],
+    sorts: [
+      {
+        expression: { concat: ['last', { value: ', ' }, 'first'] },
+        direction: 'asc',
+      },
+    ],
+    return: [
+      {
+        name: 'name',
+        expression: { concat: ['first', { value: ' ' }, 'last'] },
+        function: 'upper',
+      },
+      {
+        name: 'tier',
+        expression: {
+          if: { path: 'visits', gt: 100 },
+          then: { value: 'gold' },
+          else: { value: 'basic' },
+        },
+      },
+    ],
+  });
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    FILTER (item.visits + item.returns) > @value1
+    SORT CONCAT(item.last, @value2, item.first) ASC
+    RETURN {
+      name: UPPER(CONCAT(item.first, @value3, item.last)),
+      tier: (item.visits > @value4 ? @value5 : @value6)
+    }`.replace(/[\r\s]+/g, ' '),
+  );
+  t.deepEqual(q.bindVars, {
+    '@value0': 'people',
+    value1: 10,
+    value2: ', ',
+    value3: ' ',
+    value4: 100,
+    value5: 'gold',
+    value6: 'basic',
+  });
+});
+
+test('expressions can be collected', t => {
+  type Response = { bytes: number; requests: number; host: string };
+  const q = new AqBuilder<Response>('responses')
+    .groupBy({
+      name: 'size',
+      expression: { divide: ['bytes', 'requests'] },
+      function: 'collect',
+    })
+    .build();
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    COLLECT size = (item.bytes / item.requests)
+    WITH COUNT INTO total
+    RETURN { size, total }`.replace(/[\r\s]+/g, ' '),
+  );
+
+  // @ts-expect-error expression paths are checked against the document
+  new AqBuilder<Response>('responses').return({
+    name: 'ratio',
+    expression: { divide: ['bytes', 'missing'] },
+  });
+});
+
+test('invalid expressions are rejected', t => {
+  t.throws(
+    () =>
+      buildQuery({
+        collection: 'people',
+        return: [{ expression: { add: ['visits', 'returns'] } }],
+      }),
+    { instanceOf: TypeError, message: /require a name/ },
+  );
+  t.deepEqual(
+    validateAqQuery({
+      collection: 'people',
+      return: [
+        { name: 'total', expression: { add: ['visits'] } },
+        { name: 'tier', expression: { if: { path: 'visits', gt: 1 } } },
+      ],
+    }),
+    [
+      {
+        path: 'return[0].expression.add',
+        message: 'Expected at least 2 operands',
+      },
+      {
+        path: 'return[1].expression.then',
+        message: "Missing required property 'then'",
+      },
+      {
+        path: 'return[1].expression.else',
+        message: "Missing required property 'else'",
+      },
+    ],
+  );
+});
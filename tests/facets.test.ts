@@ -0,0 +1,106 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { buildFacetQuery } from '../src/facets.js';
+
+test('facets are counted alongside the results', t => {
+  const q = new AqBuilder('responses')
+    .filterBy({ path: 'status', eq: 200 })
+    .limit(20)
+    .buildFacets(['mime', { name: 'domain', path: 'url.domain', limit: 5 }]);
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `LET results = (
+      FOR item IN @@value0
+      FILTER item.status == @value1
+      LIMIT @value2
+      RETURN item
+    )
+    LET facet_0 = (
+      FOR item IN @@value0
+      FILTER item.status == @value1
+      COLLECT value = item.mime
+      WITH COUNT INTO count
+      SORT count DESC, value ASC
+      RETURN { value, count }
+    )
+    LET facet_1 = (
+      FOR item IN @@value0
+      FILTER item.status == @value1
+      COLLECT value = item.url.domain
+      WITH COUNT INTO count
+      SORT count DESC, value ASC
+      LIMIT @value3
+      RETURN { value, count }
+    )
+    RETURN { results, facets: { mime: facet_0, domain: facet_1 } }`.replace(
+      /[\r\s]+/g,
+      ' ',
+    ),
+  );
+  t.deepEqual(q.bindVars, {
+    '@value0': 'responses',
+    value1: 200,
+    value2: 20,
+    value3: 5,
+  });
+});
+
+test('disjunctive facets ignore their own filters', t => {
+  const q = buildFacetQuery(
+    {
+      collection: 'responses',
+      filters: [
+        {
+          or: [
+            { path: 'status', eq: 200 },
+            { path: 'status', eq: 304 },
+          ],
+        },
+        { path: 'mime', eq: 'text/html' },
+      ],
+    },
+    [{ path: 'status', disjunctive: true }],
+  );
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `LET results = (
+      FOR item IN @@value0
+      FILTER (item.status == @value1 OR item.status == @value2)
+      FILTER item.mime == @value3
+      RETURN item
+    )
+    LET facet_0 = (
+      FOR item IN @@value0
+      FILTER item.mime == @value3
+      COLLECT value = item.status
+      WITH COUNT INTO count
+      SORT count DESC, value ASC
+      RETURN { value, count }
+    )
+    RETURN { results, facets: { status: facet_0 } }`.replace(/[\r\s]+/g, ' '),
+  );
+});
+
+test('facet names must be unique', t => {
+  t.throws(
+    () => buildFacetQuery({ collection: 'responses' }, ['status', 'status']),
+    { instanceOf: TypeError, message: /must be unique/ },
+  );
+});
+
+test('facet names can match the variables facets use', t => {
+  const q = buildFacetQuery({ collection: 'responses' }, [
+    'results',
+    'value',
+    'count',
+    'item',
+  ]);
+
+  t.regex(
+    q.query,
+    /facets: { results: facet_0, value: facet_1, count: facet_2, item: facet_3 }/,
+  );
+  t.notRegex(q.query, /^LET (value|count|item) /m);
+});
@@ -0,0 +1,82 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { AqQuery } from '../src/query.js';
+import { buildQuery } from '../src/build-query.js';
+
+test('or group', t => {
+  const q: AqQuery = {
+    collection: 'responses',
+    filters: [
+      {
+        or: [
+          { path: 'status', eq: 404 },
+          { path: 'mime', contains: 'image/%', type: 'string' },
+        ],
+      },
+    ],
+  };
+
+  const aq = buildQuery(q);
+  t.is(aq.query, 'FOR item IN @@value0\nFILTER (item.status == @value1 OR item.mime LIKE @value2)\nRETURN item');
+  t.deepEqual(aq.bindVars, { '@value0': 'responses', value1: 404, value2: 'image/%' });
+});
+
+test('nested groups', t => {
+  const q: AqQuery = {
+    collection: 'responses',
+    filters: [
+      'url',
+      {
+        and: [
+          { not: { path: 'status', in: [200, 304] } },
+          {
+            or: [
+              'redirect',
+              { path: 'size', gt: 1000, lt: 5000 },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  const expected = `
+    FOR item IN @@value0
+    FILTER item.url != @value1
+    FILTER (NOT (item.status IN @value2) AND (item.redirect != @value1 OR (item.size < @value3 AND item.size > @value4)))
+    RETURN item`;
+
+  t.is(buildQuery(q).query.trim().replace(/[\r\s]+/g, ' '), expected.trim().replace(/[\r\s]+/g, ' '));
+});
+
+test('fluent filter groups', t => {
+  const rendered = `
+  FOR item IN @@value0
+  FILTER (item.status == @value1 OR item.mime LIKE @value2)
+  COLLECT domain = item.url.domain
+  WITH COUNT INTO total
+  FILTER (total > @value3 AND domain != @value4)
+  RETURN {
+    domain,
+    total
+  }`;
+
+  const q = new AqBuilder('responses')
+    .filterAny(
+      { path: 'status', eq: 404 },
+      { path: 'mime', contains: 'image/%', type: 'string' },
+    )
+    .groupBy('domain', 'url.domain')
+    .postFilterBy({
+      and: [
+        { path: 'total', gt: 10 },
+        { path: 'domain', eq: 'example.com', negate: true },
+      ],
+    })
+    .build();
+
+  const qt = q.query.trim().replace(/[\r\s]+/g, ' ');
+  const rt = rendered.trim().replace(/[\r\s]+/g, ' ');
+
+  t.is(qt, rt);
+});
@@ -0,0 +1,125 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { AqQuery } from '../src/query.js';
+import { buildQuery } from '../src/build-query.js';
+import { parseQuery } from '../src/parse-query.js';
+
+const rendered = `
+  FOR item IN @@value0
+  FILTER item.parsed != @value1
+  LET redirects = COUNT(
+    FOR rw IN @@value2
+    FILTER rw._from == item._id
+    RETURN rw
+  )
+  FILTER redirects > @value3
+  COLLECT domain = item.url.domain
+  WITH COUNT INTO total
+  FILTER total > @value4
+  RETURN {
+    domain,
+    total
+  }`;
+
+const spec: AqQuery = {
+  collection: 'responses',
+  preFilters: ['parsed'],
+  subqueries: [
+    {
+      name: 'redirects',
+      function: 'count',
+      query: {
+        collection: 'responds_with',
+        document: 'rw',
+        filters: [{ path: '_from', eq: 'item._id', value: 'dynamic' }],
+      },
+    },
+  ],
+  filters: [{ path: 'redirects', document: false, gt: 0 }],
+  aggregates: [['domain', 'url.domain']],
+  postFilters: [{ path: 'total', gt: 10 }],
+};
+
+test('filters render in their own phases', t => {
+  const aq = buildQuery(spec);
+  t.is(
+    aq.query.trim().replace(/[\r\s]+/g, ' '),
+    rendered.trim().replace(/[\r\s]+/g, ' '),
+  );
+  t.deepEqual(aq.bindVars, {
+    '@value0': 'responses',
+    value1: null,
+    '@value2': 'responds_with',
+    value3: 0,
+    value4: 10,
+  });
+});
+
+test('builder placement does not depend on call order', t => {
+  const early = new AqBuilder('responses')
+    .postFilterBy({ path: 'total', gt: 10 })
+    .filterBy('status', 200)
+    .groupBy('domain', 'url.domain')
+    .build();
+
+  const late = new AqBuilder('responses')
+    .groupBy('domain', 'url.domain')
+    .filterBy('status', 200)
+    .postFilterBy({ path: 'total', gt: 10 })
+    .build();
+
+  t.is(early.query, late.query);
+  t.is(
+    late.query.trim().replace(/[\r\s]+/g, ' '),
+    'FOR item IN @@value0 FILTER item.status == @value1 COLLECT domain = item.url.domain WITH COUNT INTO total FILTER total > @value2 RETURN { domain, total }',
+  );
+});
+
+test('pre-filters run before subqueries', t => {
+  const q = new AqBuilder({ collection: 'responses', subqueries: spec.subqueries })
+    .preFilterBy('parsed')
+    .return('url')
+    .build();
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    'FOR item IN @@value0 FILTER item.parsed != @value1 LET redirects = COUNT( FOR rw IN @@value2 FILTER rw._from == item._id RETURN rw ) RETURN item.url',
+  );
+});
+
+test('post-filters without aggregation use the document', t => {
+  const q = new AqBuilder('responses').postFilterBy('status', 404).build();
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    'FOR item IN @@value0 FILTER item.status == @value1 RETURN item',
+  );
+});
+
+test('post-aggregation filters are parsed as post-filters', t => {
+  const original = new AqBuilder('responses')
+    .groupBy('domain', 'url.domain')
+    .postFilterBy({ path: 'total', gt: 10 })
+    .build();
+
+  const { query, diagnostics } = parseQuery(original);
+  t.deepEqual(diagnostics, []);
+  t.deepEqual(query?.postFilters, [{ path: 'total', document: false, gt: 10 }]);
+  t.is(buildQuery(query as AqQuery).query, original.query);
+});
+
+test('filters on collected values are moved after aggregation', t => {
+  const q = buildQuery({
+    collection: 'responses',
+    lets: { size: 'body.length' },
+    filters: [
+      { path: 'status', eq: 200 },
+      { path: 'total', document: false, gt: 10 },
+      { path: 'size', document: false, gt: 0 },
+    ],
+    aggregates: [['domain', 'url.domain']],
+  });
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    'FOR item IN @@value0 LET size = item.body.length FILTER item.status == @value1 FILTER size > @value2 COLLECT domain = item.url.domain WITH COUNT INTO total FILTER total > @value3 RETURN { domain, total }',
+  );
+});
@@ -0,0 +1,125 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { buildQuery, renderPath } from '../src/build-query.js';
+import { AqProperty } from '../src/property.js';
+import { validateAqQuery } from '../src/validate.js';
+
+test('functions are chained in order', t => {
+  const p: AqProperty = {
+    path: 'title',
+    function: ['trim', { name: 'left', args: [20] }, 'lower'],
+  };
+  const q = renderPath(p, 'item');
+
+  t.is(q.query, 'LOWER(LEFT(TRIM(item.title), @value0))');
+  t.deepEqual(q.bindVars, { value0: 20 });
+});
+
+test('chains are rendered everywhere properties are', t => {
+  const month: AqProperty = {
+    name: 'month',
+    path: 'date',
+    function: [{ name: 'date_trunc', args: ['month'] }],
+  };
+  const q = buildQuery({
+    collection: 'crawls',
+    filters: [
+      {
+        path: 'url',
+        function: [{ name: 'substring', args: [0, 5] }],
+        eq: 'https',
+      },
+    ],
+    aggregates: [
+      {
+        ...month,
+        function: [{ name: 'date_trunc', args: ['month'] }, 'collect'],
+      },
+      { name: 'hosts', path: 'host', function: ['lower', 'count_distinct'] },
+    ],
+  });
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    FILTER SUBSTRING(item.url, @value1, @value2) == @value3
+    COLLECT month = DATE_TRUNC(item.date, @value4)
+    AGGREGATE hosts = COUNT_DISTINCT(LOWER(item.host)), total = COUNT(1)
+    RETURN { month, hosts, total }`.replace(/[\r\s]+/g, ' '),
+  );
+  t.deepEqual(q.bindVars, {
+    '@value0': 'crawls',
+    value1: 0,
+    value2: 5,
+    value3: 'https',
+    value4: 'month',
+  });
+
+  const sorted = new AqBuilder('crawls')
+    .return(month)
+    .sortBy({ ...month, direction: 'desc' })
+    .build();
+  t.is(
+    sorted.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    SORT DATE_TRUNC(item.date, @value1) DESC
+    RETURN DATE_TRUNC(item.date, @value1)`.replace(/[\r\s]+/g, ' '),
+  );
+});
+
+test('function arguments are checked', t => {
+  t.throws(
+    () =>
+      renderPath({
+        path: 'date',
+        function: [{ name: 'date_trunc' }],
+      } as unknown as AqProperty),
+    {
+      instanceOf: TypeError,
+      message: "Function 'date_trunc' takes 1 extra argument",
+    },
+  );
+  t.throws(() => renderPath({ path: 'date', function: 'date_trunc' }), {
+    instanceOf: TypeError,
+    message: "Function 'date_trunc' takes 1 extra argument",
+  });
+  t.throws(
+    () =>
+      renderPath({
+        path: 'title',
+        type: 'string',
+        function: ['sum', 'lower'],
+      }),
+    {
+      instanceOf: TypeError,
+      message: "Function 'sum' can't be used with string values",
+    },
+  );
+
+  // @ts-expect-error date_trunc requires a unit
+  const p: AqProperty = { path: 'date', function: [{ name: 'date_trunc' }] };
+  t.truthy(p);
+
+  t.deepEqual(
+    validateAqQuery({
+      collection: 'crawls',
+      return: [
+        {
+          path: 'date',
+          function: ['trim', { name: 'date_trunc', args: [] }],
+        },
+        { path: 'date', function: 'date_trunc' },
+      ],
+    }),
+    [
+      {
+        path: 'return[0].function[1]',
+        message: "Function 'date_trunc' doesn't take 0 extra arguments",
+      },
+      {
+        path: 'return[1].function',
+        message: "Function 'date_trunc' requires arguments",
+      },
+    ],
+  );
+});
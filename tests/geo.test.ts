@@ -0,0 +1,89 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { buildQuery } from '../src/build-query.js';
+import { AqGeoJson } from '../src/property.js';
+import { validateAqQuery } from '../src/validate.js';
+
+const area: AqGeoJson = {
+  type: 'Polygon',
+  coordinates: [
+    [
+      [13.3, 52.4],
+      [13.5, 52.4],
+      [13.5, 52.6],
+      [13.3, 52.4],
+    ],
+  ],
+};
+
+test('geo filters', t => {
+  const q = buildQuery({
+    collection: 'venues',
+    filters: [
+      { path: 'location', near: { point: [13.4, 52.5], radius: 1000 } },
+      { path: 'location', within: area },
+      { path: 'delivery', intersects: area, negate: true },
+    ],
+  });
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    FILTER GEO_DISTANCE(item.location, @value1) <= @value2
+    FILTER GEO_CONTAINS(@value3, item.location)
+    FILTER NOT GEO_INTERSECTS(@value3, item.delivery)
+    RETURN item`.replace(/[\r\s]+/g, ' '),
+  );
+  t.deepEqual(q.bindVars, {
+    '@value0': 'venues',
+    value1: { type: 'Point', coordinates: [13.4, 52.5] },
+    value2: 1000,
+    value3: area,
+  });
+});
+
+test('distances can be sorted and returned', t => {
+  const q = new AqBuilder('venues')
+    .near('location', [13.4, 52.5], 1000)
+    .return('name')
+    .return({ name: 'meters', path: 'location', distance: [13.4, 52.5] })
+    .limit(10)
+    .build();
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    FILTER GEO_DISTANCE(item.location, @value1) <= @value2
+    SORT GEO_DISTANCE(item.location, [@value3, @value4]) ASC
+    LIMIT @value5
+    RETURN {
+      name: item.name,
+      meters: GEO_DISTANCE(item.location, [@value3, @value4])
+    }`.replace(/[\r\s]+/g, ' '),
+  );
+  t.like(q.bindVars, { value3: 13.4, value4: 52.5, value5: 10 });
+});
+
+test('invalid points are rejected', t => {
+  t.throws(
+    () =>
+      buildQuery({
+        collection: 'venues',
+        sorts: [{ path: 'location', distance: [NaN, 52.5], direction: 'asc' }],
+      }),
+    { instanceOf: TypeError, message: /\[longitude, latitude\] pairs/ },
+  );
+  t.deepEqual(
+    validateAqQuery({
+      collection: 'venues',
+      filters: [{ path: 'location', near: { point: [13.4] } }],
+    }),
+    [
+      { path: 'filters[0].near.point', message: 'Expected array of 2 items' },
+      {
+        path: 'filters[0].near.radius',
+        message: "Missing required property 'radius'",
+      },
+    ],
+  );
+});
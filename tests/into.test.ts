@@ -0,0 +1,170 @@
+import test from 'ava';
+import { AqBuilder, AqBuilderRow } from '../src/builder.js';
+import { buildQuery } from '../src/build-query.js';
+import { parseQuery } from '../src/parse-query.js';
+import { AqQuery } from '../src/query.js';
+import { validateAqQuery } from '../src/validate.js';
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B
+  ? 1
+  : 2
+  ? true
+  : false;
+
+test('groups are collected into a variable', t => {
+  const q = buildQuery({
+    collection: 'responses',
+    aggregates: ['status'],
+    into: 'groups',
+  });
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    COLLECT status = item.status
+    AGGREGATE total = COUNT(1)
+    INTO groups
+    RETURN { status, total, groups }`.replace(/[\r\s]+/g, ' '),
+  );
+});
+
+test('groups can be projected', t => {
+  const builder = new AqBuilder('responses')
+    .groupBy('status')
+    .count(false)
+    .into('urls', { properties: ['url'] });
+
+  t.is(
+    builder
+      .build()
+      .query.trim()
+      .replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    COLLECT status = item.status
+    INTO urls = item.url
+    RETURN { status, urls }`.replace(/[\r\s]+/g, ' '),
+  );
+
+  const q = buildQuery({
+    collection: 'responses',
+    aggregates: ['status'],
+    count: false,
+    into: { name: 'pages', properties: ['url', ['size', 'body.length']] },
+  });
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    COLLECT status = item.status
+    INTO pages = { url: item.url, size: item.body.length }
+    RETURN { status, pages }`.replace(/[\r\s]+/g, ' '),
+  );
+});
+
+test('kept variables', t => {
+  const q = buildQuery({
+    collection: 'responses',
+    lets: { domain: 'url.domain' },
+    aggregates: ['status'],
+    count: false,
+    into: { name: 'groups', keep: ['domain'] },
+  });
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    LET domain = item.url.domain
+    COLLECT status = item.status
+    INTO groups KEEP domain
+    RETURN { status, groups }`.replace(/[\r\s]+/g, ' '),
+  );
+});
+
+test('group arrays can be returned and counted', t => {
+  const q = buildQuery({
+    collection: 'responses',
+    aggregates: ['status'],
+    count: false,
+    into: { name: 'urls', properties: ['url'] },
+    return: [{ name: 'pages', path: 'urls', function: 'count' }, 'mime'],
+  });
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    COLLECT status = item.status, mime = item.mime
+    INTO urls = item.url
+    RETURN { status, mime, pages: COUNT(urls) }`.replace(/[\r\s]+/g, ' '),
+  );
+});
+
+test('group arrays are typed', t => {
+  type Page = { url: string; status: number };
+  const builder = new AqBuilder<Page>('pages')
+    .groupBy('status')
+    .into('urls', { properties: ['url'] });
+
+  const typed: Equal<
+    AqBuilderRow<typeof builder>,
+    { status: number; urls: unknown[]; total: number }
+  > = true;
+  t.true(typed);
+});
+
+test('invalid into clauses are rejected', t => {
+  t.throws(() => buildQuery({ collection: 'responses', into: 'groups' }), {
+    instanceOf: TypeError,
+    message: /require collect or aggregate properties/,
+  });
+  t.throws(
+    () =>
+      buildQuery({
+        collection: 'responses',
+        aggregates: ['status'],
+        into: { name: 'groups', properties: ['url'], keep: ['item'] },
+      }),
+    { instanceOf: TypeError, message: /properties or keep, but not both/ },
+  );
+  t.throws(
+    () =>
+      buildQuery({
+        collection: 'responses',
+        aggregates: ['status'],
+        into: 'return',
+      }),
+    { instanceOf: TypeError, message: "'return' is not a valid variable name" },
+  );
+  t.throws(
+    () =>
+      buildQuery({
+        collection: 'responses',
+        aggregates: ['status'],
+        into: { name: 'g', keep: ['sort'] },
+      }),
+    { instanceOf: TypeError, message: "'sort' is not a valid variable name" },
+  );
+  t.deepEqual(
+    validateAqQuery({
+      collection: 'responses',
+      into: { name: 'groups', properties: ['url'], keep: ['item'] },
+    }),
+    [
+      {
+        path: 'into.keep',
+        message: "'properties' and 'keep' are mutually exclusive",
+      },
+    ],
+  );
+});
+
+test('into clauses are parsed', t => {
+  for (const into of ['groups', { name: 'urls', properties: ['url'] }]) {
+    const original = buildQuery({
+      collection: 'responses',
+      aggregates: ['status'],
+      into,
+    } as AqQuery);
+    const { query, diagnostics } = parseQuery(original);
+    t.deepEqual(diagnostics, []);
+    t.is(buildQuery(query as AqQuery).query, original.query);
+  }
+});
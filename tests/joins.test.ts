@@ -0,0 +1,89 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { buildQuery } from '../src/build-query.js';
+import { validateAqQuery } from '../src/validate.js';
+
+test('inner joins add a nested loop', t => {
+  const q = new AqBuilder('responses')
+    .join({ collection: 'pages', document: 'page', on: { url: 'url' } })
+    .filterBy({ path: 'status', eq: 200 })
+    .return('url')
+    .return({ name: 'title', path: 'title', document: 'page' })
+    .build();
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    FOR page IN @@value1
+    FILTER page.url == item.url
+    FILTER item.status == @value2
+    RETURN { url: item.url, title: page.title }`.replace(/[\r\s]+/g, ' '),
+  );
+});
+
+test('left joins look up the first match', t => {
+  const q = buildQuery({
+    collection: 'responses',
+    joins: [
+      {
+        collection: 'pages',
+        document: 'page',
+        on: { url: 'url', site: { path: 'site', document: 'crawl' } },
+        mode: 'left',
+      },
+    ],
+    aggregates: [
+      {
+        name: 'template',
+        path: 'template',
+        document: 'page',
+        function: 'collect',
+      },
+    ],
+  });
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    LET page = FIRST(
+      FOR page_match IN @@value1
+      FILTER (page_match.url == item.url AND page_match.site == crawl.site)
+      RETURN page_match
+    )
+    COLLECT template = page.template
+    WITH COUNT INTO total
+    RETURN { template, total }`.replace(/[\r\s]+/g, ' '),
+  );
+});
+
+test('invalid joins are rejected', t => {
+  t.throws(
+    () =>
+      buildQuery({
+        collection: 'responses',
+        joins: [{ collection: 'pages', document: 'item', on: { url: 'url' } }],
+      }),
+    { instanceOf: TypeError, message: /can't reuse the 'item' variable/ },
+  );
+  t.throws(
+    () =>
+      buildQuery({
+        collection: 'responses',
+        joins: [{ collection: 'pages', document: 'page', on: {} }],
+      }),
+    { instanceOf: TypeError, message: /at least one join condition/ },
+  );
+  t.deepEqual(
+    validateAqQuery({
+      collection: 'responses',
+      joins: [{ collection: 'pages', on: { url: 'url' }, mode: 'outer' }],
+    }),
+    [
+      { path: 'joins[0].mode', message: 'Expected one of "inner", "left"' },
+      {
+        path: 'joins[0].document',
+        message: "Missing required property 'document'",
+      },
+    ],
+  );
+});
@@ -0,0 +1,117 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { AqQuery } from '../src/query.js';
+import { buildQuery } from '../src/build-query.js';
+import { parseQuery } from '../src/parse-query.js';
+import { validateAqQuery } from '../src/validate.js';
+
+const spec: AqQuery = {
+  collection: 'responses',
+  lets: {
+    domain: { path: 'url.domain', function: 'lower' },
+    size: { expression: { add: ['body.length', 'headers.length'] } },
+    cutoff: { value: 1000 },
+  },
+  filters: [{ path: 'size', gt: 'cutoff', value: 'dynamic' }],
+  sorts: ['size'],
+  return: ['domain', 'size'],
+};
+
+test('lets render before filters', t => {
+  const q = buildQuery(spec);
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    LET domain = LOWER(item.url.domain)
+    LET size = (item.body.length + item.headers.length)
+    LET cutoff = @value1
+    FILTER size > cutoff
+    SORT size DESC
+    RETURN { domain, size }`.replace(/[\r\s]+/g, ' '),
+  );
+  t.deepEqual(q.bindVars, { '@value0': 'responses', value1: 1000 });
+});
+
+test('let references are collected in aggregate queries', t => {
+  const q = new AqBuilder('responses')
+    .let('domain', { path: 'url.domain', function: 'lower' })
+    .let('bytes', 'body.length')
+    .groupBy('domain')
+    .aggregate('bytes', 'sum')
+    .build();
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    LET domain = LOWER(item.url.domain)
+    LET bytes = item.body.length
+    COLLECT domain = domain
+    AGGREGATE bytes = SUM(LENGTH(bytes)), total = COUNT(1)
+    RETURN { domain, bytes, total }`.replace(/[\r\s]+/g, ' '),
+  );
+});
+
+test('properties with an explicit document are left alone', t => {
+  const q = buildQuery({
+    collection: 'responses',
+    lets: { url: 'parsed.url' },
+    filters: [{ path: 'url', document: 'item', eq: null, negate: true }],
+    return: ['url'],
+  });
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    LET url = item.parsed.url
+    FILTER item.url != @value1
+    RETURN url`.replace(/[\r\s]+/g, ' '),
+  );
+});
+
+test('invalid let names are rejected', t => {
+  t.throws(
+    () =>
+      buildQuery({ collection: 'responses', lets: { 'url.domain': 'url' } }),
+    {
+      instanceOf: TypeError,
+      message: /'url.domain' is not a valid variable name/,
+    },
+  );
+  t.throws(() => buildQuery({ collection: 'responses', lets: { for: 'a' } }), {
+    instanceOf: TypeError,
+    message: "'for' is not a valid variable name",
+  });
+  t.deepEqual(
+    validateAqQuery({
+      collection: 'responses',
+      lets: {
+        'bad name': 'url',
+        size: { expression: 'item.body.length + 1' },
+      },
+    }),
+    [
+      {
+        path: 'lets.bad name',
+        message: "'bad name' is not a valid variable name",
+      },
+      { path: 'lets.size.expression', message: 'Expected object' },
+    ],
+  );
+});
+
+test('simple lets are parsed', t => {
+  const original = new AqBuilder('responses')
+    .let('domain', { path: 'url.domain', function: 'lower' })
+    .let('cutoff', { value: 404 })
+    .filterBy({ path: 'status', gt: 'cutoff', value: 'dynamic' })
+    .return('domain')
+    .build();
+
+  const { query, diagnostics } = parseQuery(original);
+  t.deepEqual(diagnostics, []);
+  t.deepEqual(query?.lets, {
+    domain: { path: 'url.domain', function: 'lower' },
+    cutoff: { value: 404 },
+  });
+  t.is(buildQuery(query as AqQuery).query, original.query);
+});
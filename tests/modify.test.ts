@@ -0,0 +1,100 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { AqQuery } from '../src/query.js';
+import { buildQuery } from '../src/build-query.js';
+
+test('update in place', t => {
+  const rendered = `
+  FOR item IN @@value0
+  FILTER item.status == @value1
+  UPDATE { _key: item._key } WITH { title: item.metadata.title, archived: @value2 } IN @@value0
+  RETURN NEW`;
+
+  const q = new AqBuilder('pages')
+    .filterBy('status', 404)
+    .update({
+      properties: [['title', 'metadata.title']],
+      values: { archived: true },
+      returning: 'new',
+    })
+    .build();
+
+  const qt = q.query.trim().replace(/[\r\s]+/g, ' ');
+  const rt = rendered.trim().replace(/[\r\s]+/g, ' ');
+
+  t.is(qt, rt);
+  t.deepEqual(q.bindVars, { '@value0': 'pages', value1: 404, value2: true });
+});
+
+test('replace by literal key', t => {
+  const q: AqQuery = {
+    collection: 'pages',
+    filters: [{ path: '_key', eq: 'home' }],
+    replace: { value: 'home', collection: 'snapshots', properties: ['url'], returning: 'old' },
+  };
+
+  const rendered = `
+  FOR item IN @@value0
+  FILTER item._key == @value1
+  REPLACE { _key: @value1 } WITH { url: item.url } IN @@value2
+  RETURN OLD`;
+
+  t.is(buildQuery(q).query.trim().replace(/[\r\s]+/g, ' '), rendered.trim().replace(/[\r\s]+/g, ' '));
+});
+
+test('copy into another collection', t => {
+  const rendered = `
+  FOR item IN @@value0
+  FILTER item.status IN @value1
+  INSERT item INTO @@value2`;
+
+  const q = new AqBuilder('pages')
+    .filterBy('status', [404, 410])
+    .insertInto('archive')
+    .build();
+
+  const qt = q.query.trim().replace(/[\r\s]+/g, ' ');
+  const rt = rendered.trim().replace(/[\r\s]+/g, ' ');
+
+  t.is(qt, rt);
+});
+
+test('upsert summary records', t => {
+  const rendered = `
+  FOR item IN @@value0
+  COLLECT domain = item.url.domain
+  WITH COUNT INTO total
+  UPSERT { domain: domain }
+  INSERT { domain: domain, total: total }
+  UPDATE { total: total }
+  IN @@value1
+  RETURN NEW`;
+
+  const q = new AqBuilder('pages')
+    .groupBy('domain', 'url.domain')
+    .count('total')
+    .upsert({
+      collection: 'summaries',
+      match: { properties: [{ path: 'domain', document: false }] },
+      insert: {
+        properties: [
+          { path: 'domain', document: false },
+          { path: 'total', document: false },
+        ],
+      },
+      update: { properties: [{ path: 'total', document: false }] },
+      returning: 'new',
+    })
+    .build();
+
+  const qt = q.query.trim().replace(/[\r\s]+/g, ' ');
+  const rt = rendered.trim().replace(/[\r\s]+/g, ' ');
+
+  t.is(qt, rt);
+});
+
+test('return and modification are exclusive', t => {
+  t.throws(() => new AqBuilder('pages').return('url').update({ values: { archived: true } }), { instanceOf: TypeError });
+  t.throws(() => new AqBuilder('pages').insertInto('archive').return('url'), { instanceOf: TypeError });
+  t.throws(() => buildQuery({ collection: 'pages', return: ['url'], upsert: { match: {}, insert: {} } }), { instanceOf: TypeError });
+});
@@ -0,0 +1,88 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { AqQuery } from '../src/query.js';
+import { buildQuery } from '../src/build-query.js';
+import { encodeCursor } from '../src/pagination.js';
+
+test('limit with offset', t => {
+  const q = new AqBuilder('pages').sortBy('url').limit(20, 40).build();
+
+  t.is(q.query, 'FOR item IN @@value0\nSORT item.url ASC\nLIMIT @value1, @value2\nRETURN item');
+  t.deepEqual(q.bindVars, { '@value0': 'pages', value1: 40, value2: 20 });
+});
+
+test('multiple sorts render as one statement', t => {
+  const q = new AqBuilder('pages').sortBy('status', 'desc').sortBy('url').build();
+  t.is(q.query, 'FOR item IN @@value0\nSORT item.status DESC, item.url ASC\nRETURN item');
+});
+
+test('keyset first page adds tie-breaker', t => {
+  const q = new AqBuilder('pages').sortBy('status', 'desc').limit(50).cursor().build();
+  t.is(q.query, 'FOR item IN @@value0\nSORT item.status DESC, item._key ASC\nLIMIT @value1\nRETURN item');
+});
+
+test('keyset next page', t => {
+  const builder = new AqBuilder('pages').sortBy('status', 'desc').limit(50).cursor();
+  const token = builder.nextCursor({ _key: 'abc', status: 404, url: 'https://example.com' });
+  const q = builder.cursor(token).build();
+
+  const expected = `
+    FOR item IN @@value0
+    FILTER ((item.status < @value1) OR (item.status == @value1 AND item._key > @value2))
+    SORT item.status DESC, item._key ASC
+    LIMIT @value3
+    RETURN item`;
+
+  t.is(q.query.trim().replace(/[\r\s]+/g, ' '), expected.trim().replace(/[\r\s]+/g, ' '));
+  t.deepEqual(q.bindVars, { '@value0': 'pages', value1: 404, value2: 'abc', value3: 50 });
+});
+
+test('keyset after aggregation', t => {
+  const spec: AqQuery = {
+    collection: 'pages',
+    aggregates: [['domain', 'url.domain']],
+    count: 'total',
+    sorts: ['total'],
+    cursor: true,
+  };
+  const token = encodeCursor(spec, { domain: 'example.com', total: 12 });
+
+  const expected = `
+    FOR item IN @@value0
+    COLLECT domain = item.url.domain
+    WITH COUNT INTO total
+    FILTER ((total < @value1) OR (total == @value1 AND domain > @value2))
+    SORT total DESC, domain ASC
+    RETURN {
+      domain,
+      total
+    }`;
+
+  const q = buildQuery({ ...spec, cursor: token });
+  t.is(q.query.trim().replace(/[\r\s]+/g, ' '), expected.trim().replace(/[\r\s]+/g, ' '));
+});
+
+test('mismatched cursors rejected', t => {
+  const token = encodeCursor({ collection: 'pages', sorts: ['status'] }, { _key: 'abc', status: 404 });
+  t.throws(() => buildQuery({ collection: 'pages', sorts: ['url'], cursor: token }), { instanceOf: TypeError });
+  t.throws(() => buildQuery({ collection: 'pages', cursor: 'not-a-cursor' }), { instanceOf: TypeError });
+  t.throws(() => encodeCursor({ collection: 'pages', sorts: ['status'] }, { status: 404 }), { instanceOf: TypeError });
+});
+
+test('keyset pages with returned properties', t => {
+  const builder = new AqBuilder('pages').return('url').sortBy('status').limit(50).cursor();
+  t.is(
+    builder.build().query,
+    'FOR item IN @@value0\nSORT item.status ASC, item._key ASC\nLIMIT @value1\nRETURN {\n  url: item.url,\n  status: item.status,\n  _key: item._key\n}',
+  );
+
+  const token = builder.nextCursor({ url: 'https://example.com', status: 404, _key: 'abc' });
+  const q = builder.cursor(token).build();
+  t.true(q.query.includes('FILTER ((item.status > @value1) OR (item.status == @value1 AND item._key > @value2))'));
+  t.deepEqual(q.bindVars, { '@value0': 'pages', value1: 404, value2: 'abc', value3: 50 });
+});
+
+test('keyset pages with one returned property still return objects', t => {
+  const q = new AqBuilder('pages').groupBy('domain', 'url.domain').count(false).cursor().build();
+  t.true(q.query.endsWith('RETURN {\n  domain\n}'));
+});
@@ -0,0 +1,151 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { AqQuery } from '../src/query.js';
+import { buildQuery } from '../src/build-query.js';
+import { parseQuery } from '../src/parse-query.js';
+
+function roundTrip(spec: AqQuery) {
+  const original = buildQuery(spec);
+  const { query, diagnostics } = parseQuery(original);
+  return { original, query, diagnostics, rebuilt: query ? buildQuery(query) : undefined };
+}
+
+test('simple query', t => {
+  const { query, diagnostics } = parseQuery(
+    'FOR item IN responses FILTER item.status == 404 AND item.mime != null SORT item.url LIMIT 10, 20 RETURN item.url',
+  );
+
+  t.deepEqual(diagnostics, []);
+  t.deepEqual(query, {
+    collection: 'responses',
+    document: 'item',
+    filters: [
+      { path: 'status', eq: 404 },
+      { path: 'mime', eq: null, negate: true },
+    ],
+    sorts: [{ path: 'url', direction: 'asc' }],
+    offset: 10,
+    limit: 20,
+    return: [{ path: 'url' }],
+  });
+});
+
+test('aggregate round trip', t => {
+  const builder = new AqBuilder('responses')
+    .filterBy('url.protocol')
+    .filterBy('url.domain', ['example.com', 'test.com'])
+    .groupBy('status')
+    .groupBy('mime')
+    .aggregate('size', 'sum')
+    .aggregate({ name: 'bytes', path: 'body', function: 'max', type: 'string' })
+    .count('total')
+    .filterBy('status', [200, 404])
+    .sortBy('total', 'desc')
+    .comment('status report');
+
+  const original = builder.build();
+  const { query, diagnostics } = parseQuery(original);
+  t.deepEqual(diagnostics, []);
+  t.truthy(query);
+
+  const rebuilt = buildQuery(query as AqQuery);
+  t.is(rebuilt.query, original.query);
+  t.deepEqual(rebuilt.bindVars, original.bindVars);
+});
+
+test('subquery round trip', t => {
+  const { original, rebuilt, diagnostics } = roundTrip({
+    collection: 'unique_urls',
+    document: 'uu',
+    filters: [
+      { or: [{ path: 'parsed.protocol', in: ['http:', 'https:'] }, { not: { path: 'ignored', eq: true } }] },
+    ],
+    subqueries: [
+      {
+        name: 'redirects',
+        function: 'count',
+        query: {
+          collection: 'responds_with',
+          document: 'rw',
+          filters: [{ path: '_from', eq: 'uu._id', value: 'dynamic' }],
+          return: ['redirects'],
+        },
+      },
+    ],
+    return: [
+      { name: 'url', path: 'url' },
+      { name: 'first', path: 'children[0].name', function: 'upper' },
+      { path: 'redirects', document: false },
+    ],
+  });
+
+  t.deepEqual(diagnostics, []);
+  t.is(rebuilt?.query, original.query);
+  t.deepEqual(rebuilt?.bindVars, original.bindVars);
+});
+
+test('remove round trip', t => {
+  const original = new AqBuilder('responses')
+    .filterBy('status', 404)
+    .remove('kv_html_body')
+    .remove()
+    .build();
+
+  const { query, diagnostics } = parseQuery(original);
+  t.deepEqual(diagnostics, []);
+  t.is(buildQuery(query as AqQuery).query, original.query);
+});
+
+test('quoted key round trip', t => {
+  const { original, rebuilt, diagnostics } = roundTrip({
+    collection: 'responses',
+    filters: [
+      { path: 'headers["content-type"]', eq: 'text/html' },
+      { path: 'url', eq: 'headers["content-location"]', value: 'dynamic', negate: true },
+    ],
+  });
+
+  t.true(original.query.includes('FILTER item.headers["content-type"] == @value1'));
+  t.deepEqual(diagnostics, []);
+  t.is(rebuilt?.query, original.query);
+  t.deepEqual(rebuilt?.bindVars, original.bindVars);
+});
+
+test('comparisons with functions of other properties are reported', t => {
+  const { query, diagnostics } = parseQuery('FOR item IN responses FILTER item.a == LOWER(item.b) RETURN item');
+
+  t.is(query?.filters, undefined);
+  t.is(diagnostics.length, 1);
+  t.regex(diagnostics[0].message, /Comparisons with the result of a function can't be represented/);
+  t.notThrows(() => buildQuery(query as AqQuery));
+});
+
+test('unsupported constructs are reported', t => {
+  const { query, diagnostics } = parseQuery(`FOR item IN responses
+FILTER item.status == 404
+LET size = item.body.length + 1
+INSERT item INTO archive`);
+
+  t.is(query?.collection, 'responses');
+  t.deepEqual(query?.filters, [{ path: 'status', eq: 404 }]);
+  t.deepEqual(diagnostics.map(d => [d.severity, d.line, d.column]), [
+    ['error', 3, 12],
+    ['error', 4, 1],
+  ]);
+  t.regex(diagnostics[0].message, /LET assignments other than properties, values and subqueries/);
+  t.regex(diagnostics[1].message, /INSERT statements/);
+});
+
+test('syntax errors are reported', t => {
+  const { query, diagnostics } = parseQuery('FOR item responses RETURN item');
+  t.is(query, undefined);
+  t.deepEqual(diagnostics, [
+    { severity: 'error', message: "Expected 'IN' but found 'responses'", line: 1, column: 10 },
+  ]);
+});
+
+test('missing bind parameters are reported', t => {
+  const { diagnostics } = parseQuery('FOR item IN responses FILTER item.status == @status RETURN item');
+  t.is(diagnostics.length, 1);
+  t.is(diagnostics[0].message, 'Bind parameter @status has no value');
+});
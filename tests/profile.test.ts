@@ -0,0 +1,115 @@
+import test from 'ava';
+import { buildQuery } from '../src/build-query.js';
+import { profileCollection } from '../src/profile.js';
+import { validateAqQuery } from '../src/validate.js';
+
+test('each property is profiled by a subquery', t => {
+  const spec = profileCollection('pages', ['status'], { top: 3 });
+  const q = buildQuery(spec);
+
+  t.deepEqual(validateAqQuery(spec), []);
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `LET documents = COUNT(
+      FOR item IN @@value0
+      RETURN item
+    )
+    LET profile_0 = FIRST(
+      LET stats = FIRST(
+        FOR item IN @@value0
+        COLLECT
+        AGGREGATE
+          nulls = SUM((item.status == @value1 ? @value2 : @value3)),
+          distinctValues = COUNT_DISTINCT(item.status),
+          min = MIN((TYPENAME(item.status) == @value4 ? item.status : @value1)),
+          max = MAX((TYPENAME(item.status) == @value4 ? item.status : @value1)),
+          avg = AVG((TYPENAME(item.status) == @value4 ? item.status : @value1)),
+          total = COUNT(1)
+        RETURN { nulls, distinctValues, min, max, avg, total }
+      )
+      LET types = (
+        FOR item IN @@value0
+        COLLECT type = TYPENAME(item.status)
+        WITH COUNT INTO count
+        SORT count DESC
+        RETURN { type, count }
+      )
+      LET top = (
+        FOR item IN @@value0
+        FILTER item.status != @value1
+        COLLECT value = item.status
+        WITH COUNT INTO count
+        SORT count DESC, value ASC
+        LIMIT @value5
+        RETURN { value, count }
+      )
+      RETURN {
+        total: stats.total,
+        nulls: stats.nulls,
+        nullRate: (stats.nulls / stats.total),
+        distinctValues: stats.distinctValues,
+        min: stats.min,
+        max: stats.max,
+        avg: stats.avg,
+        types,
+        top
+      }
+    )
+    RETURN { documents, status: profile_0 }`.replace(/[\r\s]+/g, ' '),
+  );
+  t.deepEqual(q.bindVars, {
+    '@value0': 'pages',
+    value1: null,
+    value2: 1,
+    value3: 0,
+    value4: 'number',
+    value5: 3,
+  });
+});
+
+test('sample documents are profiled property by property', t => {
+  const spec = profileCollection('pages', {
+    status: 200,
+    url: { domain: 'example.com', path: '/' },
+    tags: ['news'],
+  });
+
+  t.deepEqual(spec.return, [
+    { path: 'documents', document: false },
+    { name: '`status`', path: 'profile_0', document: false },
+    { name: '`url.domain`', path: 'profile_1', document: false },
+    { name: '`url.path`', path: 'profile_2', document: false },
+    { name: '`tags`', path: 'profile_3', document: false },
+  ]);
+  t.throws(() => profileCollection('pages', ['status', 'status']), {
+    instanceOf: TypeError,
+    message: /must be unique/,
+  });
+  t.throws(() => profileCollection('pages', {}), {
+    instanceOf: TypeError,
+    message: 'Profiles require at least one property',
+  });
+});
+
+test('labels can match the names profiles use internally', t => {
+  const q = buildQuery(profileCollection('pages', ['type', 'count', 'stats']));
+
+  t.regex(
+    q.query,
+    /RETURN {\s+documents,\s+type: profile_0,\s+count: profile_1,\s+stats: profile_2\s+}$/,
+  );
+  t.notRegex(q.query, /^LET (type|count|stats) /m);
+});
+
+test('properties are returned under their paths', t => {
+  const q = buildQuery(
+    profileCollection('pages', { for: 'a', '2fa': true, a: { b: 1 }, a_b: 2 }),
+  );
+
+  t.regex(
+    q.query,
+    /RETURN {\s+documents,\s+`for`: profile_0,\s+`2fa`: profile_1,\s+`a.b`: profile_2,\s+a_b: profile_3\s+}$/,
+  );
+  t.true(q.query.includes('FILTER item.`for` != @value1'));
+  t.true(q.query.includes('FILTER item.`2fa` != @value1'));
+});
@@ -3,12 +3,12 @@ import { AqAggregate, AqProperty } from '../src/property.js';
 import { renderPath, renderLabel, renderAggregatePath } from '../src/build-query.js';
 
 function renderProperty(p: AqProperty) {
-  const o = `RETURN { ${renderLabel(p)}: ${renderPath(p)} }`;
+  const o = `RETURN { ${renderLabel(p)}: ${renderPath(p).query} }`;
   return o;
 }
 
 function renderAggregate(p: AqAggregate) {
-  const o = `AGGREGATE ${renderLabel(p)}: ${renderAggregatePath(p)}`;
+  const o = `AGGREGATE ${renderLabel(p)}: ${renderAggregatePath(p).query}`;
   return o;
 }
 
@@ -3,9 +3,9 @@ import { AqBuilder } from '../src/builder.js';
 
 test('remove in place', t => {
   const rendered = `
-  FOR item IN responses
-  FILTER item.url.domain IN @value0
-  REMOVE { _key: item._key } IN responses`;
+  FOR item IN @@value0
+  FILTER item.url.domain IN @value1
+  REMOVE { _key: item._key } IN @@value0`;
 
   const q = new AqBuilder('responses')
     .filterBy('url.domain', ['example.com', 'test.com'])
@@ -20,9 +20,9 @@ test('remove in place', t => {
 
 test('custom collection', t => {
   const rendered = `
-  FOR item IN responses
-  FILTER item.url.domain IN @value0
-  REMOVE { _key: item._key } IN kv_html_body`;
+  FOR item IN @@value0
+  FILTER item.url.domain IN @value1
+  REMOVE { _key: item._key } IN @@value2`;
 
   const q = new AqBuilder('responses')
     .filterBy('url.domain', ['example.com', 'test.com'])
@@ -37,10 +37,10 @@ test('custom collection', t => {
 
 test('multi delete', t => {
   const rendered = `
-  FOR item IN responses
-  FILTER item.url.domain IN @value0
-  REMOVE { _key: item._key } IN kv_html_body
-  REMOVE { _key: item._key } IN responses`;
+  FOR item IN @@value0
+  FILTER item.url.domain IN @value1
+  REMOVE { _key: item._key } IN @@value2
+  REMOVE { _key: item._key } IN @@value0`;
 
   const q = new AqBuilder('responses')
     .filterBy('url.domain', ['example.com', 'test.com'])
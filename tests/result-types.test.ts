@@ -0,0 +1,83 @@
+import test from 'ava';
+import { GeneratedAqlQuery } from 'arangojs/aql.js';
+import { AqBuilder, AqBuilderRow } from '../src/builder.js';
+
+type Page = {
+  url: { domain: string; protocol?: string };
+  status: number;
+  size: number;
+  tags: string[];
+};
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2
+  ? true
+  : false;
+
+type RowOf<Q> = Q extends GeneratedAqlQuery<infer T> ? T : never;
+
+test('queries without return values return documents', t => {
+  const q = new AqBuilder<Page>('pages').filterBy('status', 200);
+  const isDocument: Equal<AqBuilderRow<typeof q>, Page> = true;
+  t.true(isDocument);
+});
+
+test('returned properties are tracked', t => {
+  const single = new AqBuilder<Page>('pages').return('url.domain');
+  const isValue: Equal<AqBuilderRow<typeof single>, string> = true;
+
+  const q = new AqBuilder<Page>('pages').return('url.domain').return('code', 'status');
+  const isObject: Equal<RowOf<ReturnType<typeof q.build>>, { url_domain: string; code: number }> = true;
+
+  t.true(isValue);
+  t.true(isObject);
+});
+
+test('keyset pages return keys with returned properties', t => {
+  const q = new AqBuilder<Page>('pages').return('url.domain').cursor();
+  const isObject: Equal<AqBuilderRow<typeof q>, { url_domain: string; _key: string }> = true;
+  t.true(isObject);
+});
+
+test('aggregates and counts are tracked', t => {
+  const q = new AqBuilder<Page>('pages')
+    .groupBy('domain', 'url.domain')
+    .aggregate('size', 'sum')
+    .aggregate('tagged', 'unique', 'tags[0]')
+    .count('pages');
+  const row: Equal<
+    AqBuilderRow<typeof q>,
+    { domain: string; size: number; tagged: string[]; pages: number }
+  > = true;
+
+  const total = new AqBuilder<Page>('pages').groupBy('status');
+  const defaultCount: Equal<AqBuilderRow<typeof total>, { status: number; total: number }> = true;
+
+  const uncounted = new AqBuilder<Page>('pages').groupBy('status').count(false);
+  const bare: Equal<AqBuilderRow<typeof uncounted>, number> = true;
+
+  t.true(row);
+  t.true(defaultCount);
+  t.true(bare);
+});
+
+test('result labels can be used after aggregation', t => {
+  const aq = new AqBuilder<Page>('pages')
+    .groupBy('domain', 'url.domain')
+    .postFilterBy('total', 10)
+    .sortBy('total', 'desc')
+    .build();
+
+  // @ts-expect-error Totals are numbers
+  t.notThrows(() => new AqBuilder<Page>('pages').groupBy('status').postFilterBy('total', 'ten'));
+
+  t.is(
+    aq.query.trim().replace(/[\r\s]+/g, ' '),
+    'FOR item IN @@value0 COLLECT domain = item.url.domain WITH COUNT INTO total FILTER total == @value1 SORT total DESC RETURN { domain, total }',
+  );
+});
+
+test('untyped builders return untyped rows', t => {
+  const q = new AqBuilder('pages').return('url.domain');
+  const isUnknown: Equal<AqBuilderRow<typeof q>, unknown> = true;
+  t.true(isUnknown);
+});
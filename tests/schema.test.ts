@@ -0,0 +1,87 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { buildQuery } from '../src/build-query.js';
+import { inferTypes } from '../src/schema.js';
+
+test('types are inferred from sample documents', t => {
+  const types = inferTypes([
+    {
+      status: 200,
+      url: { domain: 'example.com' },
+      tags: ['news'],
+      title: 'Home',
+    },
+    { status: 404, url: { domain: null }, tags: [], title: 12 },
+  ]);
+
+  t.deepEqual(types, {
+    status: 'number',
+    url: 'object',
+    'url.domain': 'string',
+    tags: 'array',
+  });
+});
+
+test('types are inferred from a JSON schema', t => {
+  const types = inferTypes({
+    type: 'object',
+    properties: {
+      status: { type: 'integer' },
+      title: { type: ['string', 'null'] },
+      value: { type: ['string', 'number'] },
+      url: { type: 'object', properties: { domain: { type: 'string' } } },
+    },
+  });
+
+  t.deepEqual(types, {
+    status: 'number',
+    title: 'string',
+    url: 'object',
+    'url.domain': 'string',
+  });
+});
+
+test('types are filled in from a type map', t => {
+  const spec = new AqBuilder('pages')
+    .types({ 'body.bytes': 'number', mime: 'string' })
+    .groupBy('mime')
+    .aggregate('body.bytes', 'sum').spec;
+  const q = buildQuery(spec);
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    COLLECT
+      mime = item.mime
+    AGGREGATE
+      body_bytes = SUM(item.body.bytes),
+      total = COUNT(1)
+    RETURN { mime, body_bytes, total }`.replace(/[\r\s]+/g, ' '),
+  );
+});
+
+test('type mismatches throw', t => {
+  const types = inferTypes([{ status: 200, title: 'Home', ok: true }]);
+  const builder = () => new AqBuilder('pages').types(types);
+
+  t.throws(() => builder().aggregate('ok', 'sum').build(), {
+    instanceOf: TypeError,
+    message: "Function 'sum' can't be used with boolean values",
+  });
+  t.throws(
+    () => builder().return({ path: 'title', function: 'round' }).build(),
+    {
+      instanceOf: TypeError,
+      message: "Function 'round' can't be used with string values",
+    },
+  );
+  t.throws(() => builder().return({ path: 'status', type: 'string' }).build(), {
+    instanceOf: TypeError,
+    message: "Property 'status' is declared as string, but holds number values",
+  });
+  t.throws(() => builder().filterBy('status', '200').build(), {
+    instanceOf: TypeError,
+    message: "Filter on 'status' compares number values to a string",
+  });
+  t.notThrows(() => builder().filterBy('status', 200).build());
+});
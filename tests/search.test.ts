@@ -0,0 +1,69 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { AqQuery } from '../src/query.js';
+import { buildQuery } from '../src/build-query.js';
+
+test('search view with relevance sorting', t => {
+  const q: AqQuery = {
+    view: 'content_view',
+    search: [
+      { path: 'body', phrase: 'content strategy', analyzer: 'text_en', boost: 2 },
+      { path: 'url', startsWith: 'https://example.com' },
+    ],
+    sorts: [{ name: 'relevance', function: 'bm25', direction: 'desc' }],
+    limit: 10,
+    return: [
+      { name: 'url', path: 'url' },
+      { name: 'relevance', function: 'bm25' },
+    ],
+  };
+
+  const expected = `
+    FOR item IN @@value0
+    SEARCH BOOST(ANALYZER(PHRASE(item.body, @value1), @value2), @value3) AND STARTS_WITH(item.url, @value4)
+    SORT BM25(item) DESC
+    LIMIT @value5
+    RETURN {
+      url: item.url,
+      relevance: BM25(item)
+    }`;
+
+  const aq = buildQuery(q);
+  t.is(aq.query.trim().replace(/[\r\s]+/g, ' '), expected.trim().replace(/[\r\s]+/g, ' '));
+  t.deepEqual(aq.bindVars, {
+    '@value0': 'content_view',
+    value1: 'content strategy',
+    value2: 'text_en',
+    value3: 2,
+    value4: 'https://example.com',
+    value5: 10,
+  });
+});
+
+test('search groups and tokens', t => {
+  const rendered = `
+  FOR doc IN @@value0
+  SEARCH (ANALYZER(doc.title IN TOKENS(@value1, @value2), @value2) OR NOT (doc.status IN @value3))
+  SORT TFIDF(doc) DESC
+  RETURN doc`;
+
+  const q = new AqBuilder({ view: 'content_view', document: 'doc' })
+    .search({
+      or: [
+        { path: 'title', tokens: 'site audit', analyzer: 'text_en' },
+        { path: 'status', in: [404, 500], negate: true },
+      ],
+    })
+    .sortBy({ name: 'score', function: 'tfidf', direction: 'desc' })
+    .build();
+
+  const qt = q.query.trim().replace(/[\r\s]+/g, ' ');
+  const rt = rendered.trim().replace(/[\r\s]+/g, ' ');
+
+  t.is(qt, rt);
+});
+
+test('search requires a view', t => {
+  t.throws(() => buildQuery({ collection: 'pages', search: [{ path: 'title', eq: 'home' }] }), { instanceOf: TypeError });
+  t.throws(() => buildQuery({ view: 'content_view', search: [{ path: 'title', tokens: 'home' }] }), { instanceOf: TypeError });
+});
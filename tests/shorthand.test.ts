@@ -8,7 +8,7 @@ test('fluent, spec, and strict spec render identically', t => {
     .groupBy('status')
     .groupBy('mime')
     .count('total')
-    .filterBy('status', [200, 404])
+    .postFilterBy('status', [200, 404])
     .sortBy('total', 'desc')
     .build();
 
@@ -17,7 +17,9 @@ test('fluent, spec, and strict spec render identically', t => {
     filters: [
       { path: 'url.protocol', eq: null, negate: true },
       { path: 'url.domain', in: ['example.com', 'test.com'] },
-      { path: 'status', in: [200, 404], document: false },
+    ],
+    postFilters: [
+      { path: 'status', in: [200, 404] },
     ],
     aggregates: [
       { path: 'status', function: 'collect' },
@@ -34,7 +36,9 @@ test('fluent, spec, and strict spec render identically', t => {
     filters: [
       'url.protocol',
       { path: 'url.domain', in: ['example.com', 'test.com'] },
-      { path: 'status', in: [200, 404], document: false },
+    ],
+    postFilters: [
+      { path: 'status', in: [200, 404] },
     ],
     aggregates: ['status', 'mime'],
     sorts: ['total'],
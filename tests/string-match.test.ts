@@ -0,0 +1,84 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { buildQuery } from '../src/build-query.js';
+
+test('like patterns are escaped', t => {
+  const q = buildQuery({
+    collection: 'pages',
+    filters: [
+      { path: 'title', like: '50%_off' },
+      { path: 'url', like: 'https://example.com/?q=a*b', caseInsensitive: true, negate: true },
+    ],
+  });
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    FILTER item.title LIKE @value1
+    FILTER NOT LIKE(item.url, @value2, true)
+    RETURN item`.replace(/[\r\s]+/g, ' '),
+  );
+  t.deepEqual(q.bindVars, { '@value0': 'pages', value1: '50\\%\\_off', value2: 'https://example.com/?q=a*b' });
+});
+
+test('prefixes and suffixes', t => {
+  const q = buildQuery({
+    collection: 'pages',
+    filters: [
+      { path: 'url', startsWith: 'https://' },
+      { path: 'url', endsWith: '.PDF', caseInsensitive: true },
+      { path: 'url', startsWith: 'site.root', value: 'dynamic' },
+      { path: 'url', endsWith: 'site.suffix', value: 'dynamic', negate: true },
+    ],
+  });
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    FILTER item.url LIKE @value1
+    FILTER LIKE(item.url, @value2, true)
+    FILTER STARTS_WITH(item.url, site.root)
+    FILTER RIGHT(item.url, LENGTH(site.suffix)) != site.suffix
+    RETURN item`.replace(/[\r\s]+/g, ' '),
+  );
+  t.deepEqual(q.bindVars, { '@value0': 'pages', value1: 'https://%', value2: '%.PDF' });
+});
+
+test('regular expressions and fuzzy matches', t => {
+  const q = new AqBuilder('pages')
+    .filterBy({ path: 'title', regex: '^(news|blog)', caseInsensitive: true })
+    .filterBy({ path: 'title', regex: 'draft', negate: true })
+    .filterBy({
+      path: 'author',
+      fuzzy: { text: 'Smith', distance: 2 },
+      caseInsensitive: true,
+    })
+    .build();
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    FILTER REGEX_TEST(item.title, @value1, true)
+    FILTER NOT REGEX_TEST(item.title, @value2)
+    FILTER LEVENSHTEIN_DISTANCE(LOWER(item.author), @value3) <= @value4
+    RETURN item`.replace(/[\r\s]+/g, ' '),
+  );
+  t.deepEqual(q.bindVars, {
+    '@value0': 'pages',
+    value1: '^(news|blog)',
+    value2: 'draft',
+    value3: 'smith',
+    value4: 2,
+  });
+});
+
+test('text matching is only allowed on string properties', t => {
+  type Page = { title: string; status: number };
+  const builder = new AqBuilder<Page>('pages').filterBy({
+    path: 'title',
+    startsWith: 'How to',
+  });
+  // @ts-expect-error status isn't a string
+  builder.filterBy({ path: 'status', like: '404' });
+  t.pass();
+});
@@ -28,9 +28,9 @@ test('nested subqueries', t => {
   }
 
   const renderedQuery =
-`FOR uu IN unique_urls
-  FOR rw IN responds_with
-    FOR rs IN resources
+`FOR uu IN @@value0
+  FOR rw IN @@value1
+    FOR rs IN @@value2
     FILTER rs._id == rw._to
   FILTER rw._from == uu._id
 RETURN {
@@ -64,13 +64,13 @@ test('assigned subquery', t => {
   }
 
   const renderedQuery =
-  `FOR uu IN unique_urls
+  `FOR uu IN @@value0
 LET request = (
-  FOR rw IN responds_with
+  FOR rw IN @@value1
   FILTER rw._from == uu._id
   RETURN rw
 )
-FILTER uu.parsed.protocol IN @value0
+FILTER uu.parsed.protocol IN @value2
 RETURN {
   url: uu.url,
   redirects: request.redirects
@@ -103,13 +103,13 @@ test('assigned wrapped subquery', t => {
   }
 
   const renderedQuery =
-  `FOR uu IN unique_urls
+  `FOR uu IN @@value0
 LET redirects = COUNT(
-  FOR rw IN responds_with
+  FOR rw IN @@value1
   FILTER rw._from == uu._id
   RETURN rw.redirects
 )
-FILTER uu.parsed.protocol IN @value0
+FILTER uu.parsed.protocol IN @value2
 RETURN {
   url: uu.url,
   redirects
@@ -142,13 +142,13 @@ test('subquery with join filter', t => {
   }
 
   const renderedQuery =
-  `FOR uu IN unique_urls
+  `FOR uu IN @@value0
 LET redirects = COUNT(
-  FOR rw IN responds_with
+  FOR rw IN @@value1
   FILTER rw._from == uu._id
   RETURN rw.redirects
 )
-FILTER uu.parsed.protocol IN @value0
+FILTER uu.parsed.protocol IN @value2
 RETURN {
   url: uu.url,
   redirects
@@ -156,3 +156,99 @@ RETURN {
 
   t.is(buildQuery(pq).query, renderedQuery);
 });
+
+test('correlated subqueries', t => {
+  const pq: AqQuery = {
+    collection: 'pages',
+    subqueries: [
+      {
+        name: 'responses',
+        function: 'count',
+        query: {
+          collection: 'responses',
+          correlate: { page: '_key' },
+          subqueries: [
+            {
+              name: 'resources',
+              query: {
+                collection: 'resources',
+                correlate: { response: '_key', site: { path: 'site', document: 'item' } },
+              },
+            },
+          ],
+          return: ['status', { path: 'resources', document: false }],
+        },
+      },
+    ],
+    return: ['url', { path: 'responses', document: false }],
+  };
+
+  const renderedQuery =
+`FOR item IN @@value0
+LET responses = COUNT(
+  FOR item_1 IN @@value1
+  FILTER item_1.page == item._key
+  LET resources = (
+    FOR item_2 IN @@value2
+    FILTER (item_2.response == item_1._key AND item_2.site == item.site)
+    RETURN item_2
+  )
+  RETURN {
+    status: item_1.status,
+    resources
+  }
+)
+RETURN {
+  url: item.url,
+  responses
+}`
+
+  t.is(buildQuery(pq).query, renderedQuery);
+});
+
+test('correlations must refer to enclosing queries', t => {
+  t.throws(() => buildQuery({ collection: 'responses', correlate: { page: '_key' } }), {
+    instanceOf: TypeError,
+    message: 'Correlations can only be used in subqueries',
+  });
+  t.throws(
+    () =>
+      buildQuery({
+        collection: 'pages',
+        subqueries: [
+          {
+            collection: 'responses',
+            correlate: { page: { path: '_key', document: 'page' } },
+          },
+        ],
+      }),
+    {
+      instanceOf: TypeError,
+      message: "Correlation 'page' refers to 'page', which no enclosing query defines",
+    },
+  );
+});
+
+test('queries without a source only assign subqueries', t => {
+  const q = buildQuery({
+    subqueries: [
+      { name: 'pages', function: 'count', query: { collection: 'pages' } },
+      { name: 'sites', function: 'count', query: { collection: 'sites' } },
+    ],
+    return: [
+      { path: 'pages', document: false },
+      { path: 'sites', document: false },
+    ],
+  });
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `LET pages = COUNT( FOR item IN @@value0 RETURN item )
+    LET sites = COUNT( FOR item IN @@value1 RETURN item )
+    RETURN { pages, sites }`.replace(/[\r\s]+/g, ' '),
+  );
+  t.throws(
+    () => buildQuery({ subqueries: [{ name: 'pages', query: { collection: 'pages' } }] }),
+    { instanceOf: TypeError, message: /require return values/ },
+  );
+});
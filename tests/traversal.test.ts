@@ -0,0 +1,123 @@
+import test from 'ava';
+import { AqQuery } from '../src/query.js';
+import { buildQuery } from '../src/build-query.js';
+import { validateAqQuery } from '../src/validate.js';
+
+test('traversal with edge collections', t => {
+  const q: AqQuery = {
+    document: 'page',
+    traversal: {
+      start: 'pages/home',
+      direction: 'outbound',
+      edges: ['links_to', 'redirects_to'],
+      max: 3,
+      edge: 'link',
+    },
+    filters: [{ document: 'link', path: 'type', eq: 'anchor' }],
+    return: [
+      { name: 'url', path: 'url' },
+      { name: 'label', document: 'link', path: 'text' },
+    ],
+  };
+
+  const expected = `
+    FOR page, link IN @value0..@value1 OUTBOUND @value2 @@value3, @@value4
+    FILTER link.type == @value5
+    RETURN {
+      url: page.url,
+      label: link.text
+    }`;
+
+  const aq = buildQuery(q);
+  t.is(aq.query.trim().replace(/[\r\s]+/g, ' '), expected.trim().replace(/[\r\s]+/g, ' '));
+  t.deepEqual(aq.bindVars, {
+    value0: 1,
+    value1: 3,
+    value2: 'pages/home',
+    '@value3': 'links_to',
+    '@value4': 'redirects_to',
+    value5: 'anchor',
+  });
+});
+
+test('traversal of a named graph with path variable', t => {
+  const q: AqQuery = {
+    traversal: {
+      start: 'pages/home',
+      direction: 'any',
+      graph: 'site',
+      vertex: 'v',
+      min: 2,
+      max: 2,
+      path: 'p',
+    },
+    return: [{ name: 'hops', document: 'p', path: 'edges', function: 'length' }],
+  };
+
+  const aq = buildQuery(q);
+  t.is(aq.query, 'FOR v, _edge, p IN @value0..@value0 ANY @value1 GRAPH @value2\nRETURN LENGTH(p.edges)');
+  t.deepEqual(aq.bindVars, { value0: 2, value1: 'pages/home', value2: 'site' });
+});
+
+test('traversal from a dynamic start vertex', t => {
+  const q: AqQuery = {
+    collection: 'pages',
+    document: 'pg',
+    subqueries: [
+      {
+        name: 'linked',
+        function: 'count',
+        query: {
+          document: 'target',
+          traversal: {
+            start: 'pg._id',
+            value: 'dynamic',
+            direction: 'inbound',
+            edges: ['links_to'],
+          },
+        },
+      },
+    ],
+    return: [
+      { name: 'url', path: 'url' },
+      { path: 'linked', document: false },
+    ],
+  };
+
+  const expected = `
+    FOR pg IN @@value0
+    LET linked = COUNT(
+      FOR target IN @value1..@value1 INBOUND pg._id @@value2
+      RETURN target
+    )
+    RETURN {
+      url: pg.url,
+      linked
+    }`;
+
+  t.is(buildQuery(q).query.trim().replace(/[\r\s]+/g, ' '), expected.trim().replace(/[\r\s]+/g, ' '));
+});
+
+test('invalid traversal depth', t => {
+  const q: AqQuery = {
+    traversal: { start: 'pages/home', direction: 'outbound', edges: ['links_to'], min: 3, max: 1 },
+  };
+  t.throws(() => buildQuery(q), { instanceOf: TypeError });
+});
+
+test('invalid traversal direction', t => {
+  const q = {
+    traversal: { start: 'pages/home', direction: 'constructor', edges: ['links_to'] },
+  } as unknown as AqQuery;
+  t.throws(() => buildQuery(q), {
+    instanceOf: TypeError,
+    message: "'constructor' is not a valid traversal direction",
+  });
+  t.deepEqual(validateAqQuery(q), [
+    { path: 'traversal.direction', message: 'Expected one of "outbound", "inbound", "any"' },
+  ]);
+});
+
+test('source required', t => {
+  t.throws(() => buildQuery({}), { instanceOf: TypeError });
+});
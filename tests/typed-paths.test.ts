@@ -0,0 +1,84 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { AqQuery } from '../src/query.js';
+import { AqPath, AqPathValue } from '../src/paths.js';
+
+type Page = {
+  url: { domain: string; protocol?: string };
+  status: number;
+  tags: string[];
+  links: { href: string; rel?: string }[];
+};
+
+test('paths include nested properties and array indexes', t => {
+  const paths: AqPath<Page>[] = ['url.domain', 'tags[0]', 'links[2].href'];
+  const domain: AqPathValue<Page, 'links[0].href'> = 'example.com';
+
+  // @ts-expect-error Misspelled property
+  const typo: AqPath<Page> = 'url.domian';
+
+  t.deepEqual(paths, ['url.domain', 'tags[0]', 'links[2].href']);
+  t.is(domain, 'example.com');
+  t.truthy(typo);
+});
+
+test('typed builder checks paths and filter values', t => {
+  const aq = new AqBuilder<Page>('pages')
+    .filterBy('status', [200, 404])
+    .filterBy('url.protocol', null)
+    .filterBy('links[0].href', 'https://example.com')
+    .return('url.domain')
+    .return('code', 'status')
+    .sortBy('status', 'desc')
+    .build();
+
+  t.is(
+    aq.query.trim().replace(/[\r\s]+/g, ' '),
+    'FOR item IN @@value0 FILTER item.status IN @value1 FILTER item.url.protocol == @value2 FILTER item.links[0].href == @value3 SORT item.status DESC RETURN { url_domain: item.url.domain, code: item.status }',
+  );
+
+  const builder = new AqBuilder<Page>('pages');
+  // @ts-expect-error Misspelled property
+  t.notThrows(() => builder.filterBy('url.domian', 'example.com'));
+  // @ts-expect-error Status is a number
+  t.notThrows(() => builder.filterBy('status', '404'));
+  // @ts-expect-error Status can't be null
+  t.notThrows(() => builder.filterBy('status', null));
+  // @ts-expect-error Misspelled property
+  t.notThrows(() => builder.groupBy('domain', 'url.domian'));
+});
+
+test('typed specs check paths on the query document', t => {
+  const spec: AqQuery<Page> = {
+    collection: 'pages',
+    filters: [
+      'url.domain',
+      { path: 'status', lt: 400 },
+      { path: 'tags', contains: 'news' },
+      { or: [{ name: 'links[0].rel', eq: 'canonical' }, { path: 'status', eq: 200 }] },
+      { path: 'total', document: false, gt: 1 },
+    ],
+    return: ['url.domain', ['code', 'status']],
+  };
+  t.notThrows(() => AqBuilder.build(spec));
+
+  const invalid: AqQuery<Page> = {
+    collection: 'pages',
+    // @ts-expect-error Status is a number
+    filters: [{ path: 'status', eq: '404' }],
+    // @ts-expect-error Misspelled property
+    return: ['url.domian'],
+  };
+  t.truthy(invalid);
+});
+
+test('untyped usage accepts any path', t => {
+  const aq = new AqBuilder('pages')
+    .filterBy('anything.at.all', 1)
+    .return('whatever')
+    .build();
+  t.is(
+    aq.query.trim().replace(/[\r\s]+/g, ' '),
+    'FOR item IN @@value0 FILTER item.anything.at.`all` == @value1 RETURN item.whatever',
+  );
+});
@@ -0,0 +1,133 @@
+import test from 'ava';
+import { aqQueryJsonSchema, validateAqQuery } from '../src/validate.js';
+import { buildQuery } from '../src/build-query.js';
+import { AqQuery } from '../src/query.js';
+
+test('valid queries produce no errors', t => {
+  const errors = validateAqQuery({
+    collection: 'responses',
+    filters: [
+      'parsed',
+      ['status', 'response.status'],
+      { path: 'status', lt: 400 },
+      { or: [{ path: 'mime', eq: 'text/html' }, { not: { path: 'url', eq: null } }] },
+    ],
+    subqueries: [
+      {
+        name: 'links',
+        function: 'count',
+        query: { collection: 'links', document: 'link', filters: [{ path: '_from', eq: 'item._id', value: 'dynamic' }] },
+      },
+    ],
+    aggregates: [{ name: 'domain', function: 'collect' }],
+    sorts: [{ name: 'domain', direction: 'asc' }],
+    limit: 10,
+  });
+  t.deepEqual(errors, []);
+});
+
+test('errors include the path to the problem', t => {
+  const errors = validateAqQuery({
+    collection: 'responses',
+    filters: ['parsed', { path: 'status', eq: 200 }, { path: 'status', lt: true }],
+  });
+  t.deepEqual(errors, [{ path: 'filters[2].lt', message: 'Expected string or number' }]);
+});
+
+test('unknown keys and unsupported functions are reported', t => {
+  const errors = validateAqQuery({
+    collection: 'responses',
+    limt: 10,
+    return: [{ name: 'title', function: 'shout' }],
+  });
+  t.deepEqual(errors, [
+    { path: 'limt', message: "Unknown property 'limt'" },
+    { path: 'return[0].function', message: 'Expected supported AQL function' },
+  ]);
+});
+
+test('function and value type mismatches are reported', t => {
+  const errors = validateAqQuery({
+    collection: 'responses',
+    return: [{ name: 'title', function: 'sum', type: 'string' }],
+  });
+  t.deepEqual(errors, [
+    { path: 'return[0].function', message: "Function 'sum' can't be used with string values" },
+  ]);
+});
+
+test('nested subqueries are validated', t => {
+  const errors = validateAqQuery({
+    collection: 'responses',
+    subqueries: [
+      { name: 'links', query: { collection: 'links', sorts: [{ name: 'url' }] } },
+      { collection: 'pages', inline: 'yes' },
+    ],
+  });
+  t.deepEqual(errors, [
+    { path: 'subqueries[0].query.sorts[0].direction', message: "Missing required property 'direction'" },
+    { path: 'subqueries[1].inline', message: 'Expected true' },
+  ]);
+});
+
+test('remove entries require exactly one of property or value', t => {
+  const errors = validateAqQuery({
+    collection: 'responses',
+    remove: [{ collection: 'responses', property: '_key', value: 'item' }, { collection: 'links' }],
+  });
+  t.deepEqual(errors, [
+    { path: 'remove[0]', message: "Requires exactly one of 'property', 'value'" },
+    { path: 'remove[1]', message: "Requires exactly one of 'property', 'value'" },
+  ]);
+});
+
+test('variable names are checked', t => {
+  const errors = validateAqQuery({
+    collection: 'responses',
+    document: 'item REMOVE item',
+    aggregates: ['mime'],
+    count: 'x RETURN 1 //',
+    into: { name: 'groups', keep: ['mime', '1'] },
+  });
+  t.deepEqual(errors, [
+    { path: 'document', message: "'item REMOVE item' is not a valid variable name" },
+    { path: 'count', message: "'x RETURN 1 //' is not a valid variable name" },
+    { path: 'into.keep[1]', message: "'1' is not a valid variable name" },
+  ]);
+});
+
+test('reserved words are rejected as variable names, as they are when building', t => {
+  const spec: AqQuery = {
+    collection: 'pages',
+    joins: [{ collection: 'sites', document: 'filter', on: { _key: 'site' } }],
+    lets: { Sort: 'size' },
+  };
+  t.deepEqual(validateAqQuery(spec), [
+    { path: 'joins[0].document', message: "'filter' is not a valid variable name" },
+    { path: 'lets.Sort', message: "'Sort' is not a valid variable name" },
+  ]);
+  t.throws(() => buildQuery(spec), { instanceOf: TypeError, message: "'filter' is not a valid variable name" });
+});
+
+test('cross-field rules are checked', t => {
+  t.deepEqual(validateAqQuery({ filters: [] }), [
+    { path: '', message: "Requires at least one of 'collection', 'traversal', 'view', 'subqueries', 'lets'" },
+  ]);
+  t.deepEqual(validateAqQuery({ collection: 'a', return: ['b'], remove: true }), [
+    { path: 'remove', message: "'return' and 'remove' are mutually exclusive" },
+  ]);
+  t.deepEqual(validateAqQuery('responses'), [{ path: '', message: 'Expected object' }]);
+});
+
+test('json schema is generated from the same definitions', t => {
+  const schema = aqQueryJsonSchema();
+  const definitions = schema.definitions as Record<string, Record<string, unknown>>;
+
+  t.is(schema.$ref, '#/definitions/query');
+  t.deepEqual(definitions.filterGroup.allOf, [
+    { oneOf: [{ required: ['or'] }, { required: ['and'] }, { required: ['not'] }] },
+  ]);
+  t.true((definitions.property.properties as Record<string, { anyOf: { enum: string[] }[] }>).function.anyOf[0].enum.includes('count'));
+  t.is(definitions.query.additionalProperties, false);
+  t.notThrows(() => JSON.stringify(schema));
+});
@@ -0,0 +1,115 @@
+import test from 'ava';
+import { AqBuilder } from '../src/builder.js';
+import { buildQuery } from '../src/build-query.js';
+import { validateAqQuery } from '../src/validate.js';
+
+test('row-based windows', t => {
+  const q = new AqBuilder('crawls')
+    .window({
+      sort: 'started',
+      preceding: 'unbounded',
+      aggregates: [
+        { name: 'running', path: 'pages', function: 'sum', type: 'number' },
+      ],
+    })
+    .return('started')
+    .return('running', 'running')
+    .sortBy('running', 'desc')
+    .build();
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    SORT item.started ASC
+    WINDOW { preceding: @value1 }
+    AGGREGATE running = SUM(item.pages)
+    SORT running DESC
+    RETURN { started: item.started, running }`.replace(/[\r\s]+/g, ' '),
+  );
+  t.deepEqual(q.bindVars, { '@value0': 'crawls', value1: 'unbounded' });
+});
+
+test('range-based windows are sorted by their range', t => {
+  const q = buildQuery({
+    collection: 'crawls',
+    windows: [
+      {
+        range: 'started',
+        preceding: 'P7D',
+        following: 0,
+        aggregates: [
+          { name: 'weekly', path: 'pages', function: 'avg', type: 'number' },
+          { name: 'crawls', path: '_key', function: 'count' },
+        ],
+      },
+    ],
+    limit: 10,
+  });
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    SORT item.started ASC
+    WINDOW item.started WITH { preceding: @value1, following: @value2 }
+    AGGREGATE weekly = AVG(item.pages), crawls = COUNT(item._key)
+    LIMIT @value3
+    RETURN MERGE(item, { weekly, crawls })`.replace(/[\r\s]+/g, ' '),
+  );
+  t.deepEqual(q.bindVars, { '@value0': 'crawls', value1: 'P7D', value2: 0, value3: 10 });
+});
+
+test('windows over collected values', t => {
+  const q = new AqBuilder('crawls')
+    .groupBy('day', 'started_day')
+    .aggregate({
+      name: 'pages',
+      path: 'pages',
+      function: 'sum',
+      type: 'number',
+    })
+    .window({
+      sort: 'day',
+      preceding: 6,
+      aggregates: [
+        { name: 'moving', path: 'pages', function: 'avg', type: 'number' },
+      ],
+    })
+    .build();
+
+  t.is(
+    q.query.trim().replace(/[\r\s]+/g, ' '),
+    `FOR item IN @@value0
+    COLLECT day = item.started_day
+    AGGREGATE pages = SUM(item.pages), total = COUNT(1)
+    SORT day ASC
+    WINDOW { preceding: @value1 }
+    AGGREGATE moving = AVG(pages)
+    RETURN { day, pages, total, moving }`.replace(/[\r\s]+/g, ' '),
+  );
+});
+
+test('invalid windows are rejected', t => {
+  const builder = new AqBuilder('crawls');
+  t.throws(
+    () =>
+      builder.window({
+        aggregates: [{ path: 'pages', function: 'collect' }],
+      }),
+    { instanceOf: TypeError, message: /'collect' can't be used in a window/ },
+  );
+  t.throws(
+    () =>
+      builder.window({
+        preceding: 'P1D',
+        aggregates: [{ path: 'pages', function: 'sum' }],
+      }),
+    { instanceOf: TypeError, message: /'P1D' requires a range property/ },
+  );
+  t.deepEqual(
+    validateAqQuery({
+      collection: 'crawls',
+      windows: [{ preceding: true, aggregates: [] }],
+    }),
+    [{ path: 'windows[0].preceding', message: 'Expected number or string' }],
+  );
+});